@@ -0,0 +1,359 @@
+/**
+ * Fake GitHub server for tests
+ *
+ * Serves a directory laid out like Azure-Sentinel through the routes
+ * GitHubClient uses - commits, git commits and trees, compare, contents and
+ * raw files - on one local port, GitHub Enterprise Server style:
+ *   API: http://127.0.0.1:PORT/api/v3    raw: http://127.0.0.1:PORT/raw
+ * Blob, tree and commit SHAs are computed the way git does, so the blob cache
+ * and ref pinning behave as they do against GitHub.
+ *
+ * Record/replay: in 'record' mode every request is forwarded to an upstream
+ * GitHub (api.github.com / raw.githubusercontent.com by default) and the
+ * responses are saved to a cassette file on close(); 'replay' mode serves
+ * only saved responses, so tests against real content run offline.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+export type FakeGitHubMode = 'fixture' | 'record' | 'replay';
+
+export interface FakeGitHubOptions {
+  /** Repository content to serve (fixture mode) */
+  root?: string;
+  /** Content of the branch's parent commit, for the compare API (fixture mode) */
+  parentRoot?: string;
+  owner?: string;
+  name?: string;
+  branch?: string;
+  mode?: FakeGitHubMode;
+  /** Cassette file written in record mode and read in replay mode */
+  cassette?: string;
+  /** Where record mode forwards requests */
+  upstream?: { apiUrl: string; rawUrl: string };
+}
+
+export interface FakeGitHub {
+  apiUrl: string;
+  rawUrl: string;
+  /** Commit the branch points at (fixture mode) */
+  commitSha: string;
+  /** Parent commit, when parentRoot was given */
+  parentSha?: string;
+  /** Tree SHA of a directory in the fixture ('' for the root) */
+  treeSha(dirPath: string): string | undefined;
+  /** Every request served, as "METHOD /path" */
+  requests: string[];
+  /** Requests replay mode had no recording for */
+  misses: string[];
+  close(): Promise<void>;
+}
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string; // base64
+}
+
+interface TreeEntry {
+  name: string;
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree';
+  sha: string;
+  size?: number;
+}
+
+// Response headers kept in a cassette
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'x-ratelimit-used', 'x-ratelimit-resource'];
+
+/**
+ * Hash a git object of the given type
+ */
+function gitHash(type: string, body: Buffer): string {
+  return crypto.createHash('sha1').update(`${type} ${body.length}\0`).update(body).digest('hex');
+}
+
+/**
+ * In-memory git object model of a directory: blobs, trees and one commit,
+ * optionally on top of a parent commit
+ */
+class FixtureRepository {
+  readonly files = new Map<string, Buffer>();
+  readonly trees = new Map<string, TreeEntry[]>(); // tree SHA -> entries
+  readonly treeShaByPath = new Map<string, string>();
+  readonly rootTree: string;
+  readonly commitSha: string;
+
+  constructor(root: string, readonly parent?: FixtureRepository) {
+    this.rootTree = this.hashDirectory(root, '');
+    const commit = `tree ${this.rootTree}\n${parent ? `parent ${parent.commitSha}\n` : ''}author Test <test@example.com> 0 +0000\ncommitter Test <test@example.com> 0 +0000\n\nFixture\n`;
+    this.commitSha = gitHash('commit', Buffer.from(commit));
+  }
+
+  private hashDirectory(dir: string, dirPath: string): string {
+    const entries: TreeEntry[] = [];
+    for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+      const itemPath = dirPath ? `${dirPath}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory()) {
+        entries.push({ name: dirent.name, path: itemPath, mode: '040000', type: 'tree', sha: this.hashDirectory(path.join(dir, dirent.name), itemPath) });
+      } else {
+        const content = fs.readFileSync(path.join(dir, dirent.name));
+        this.files.set(itemPath, content);
+        entries.push({ name: dirent.name, path: itemPath, mode: '100644', type: 'blob', sha: gitHash('blob', content), size: content.length });
+      }
+    }
+
+    // Git orders entries by name, comparing directories as "name/"
+    const sortKey = (e: TreeEntry) => (e.type === 'tree' ? `${e.name}/` : e.name);
+    entries.sort((a, b) => Buffer.compare(Buffer.from(sortKey(a)), Buffer.from(sortKey(b))));
+
+    const body = Buffer.concat(
+      entries.flatMap((e) => [Buffer.from(`${e.mode === '040000' ? '40000' : e.mode} ${e.name}\0`), Buffer.from(e.sha, 'hex')])
+    );
+    const sha = gitHash('tree', body);
+    this.trees.set(sha, entries);
+    this.treeShaByPath.set(dirPath, sha);
+    return sha;
+  }
+
+  /**
+   * Files added, modified or removed since another version of the content
+   */
+  changesSince(base: FixtureRepository): Array<{ filename: string; status: string }> {
+    const paths = new Set([...base.files.keys(), ...this.files.keys()]);
+    return Array.from(paths)
+      .sort()
+      .flatMap((filename) => {
+        const before = base.files.get(filename);
+        const after = this.files.get(filename);
+        if (before && after) {
+          return before.equals(after) ? [] : [{ filename, status: 'modified' }];
+        }
+        return [{ filename, status: after ? 'added' : 'removed' }];
+      });
+  }
+
+  /**
+   * Tree entries with paths relative to the tree, optionally recursive
+   */
+  listTree(sha: string, recursive: boolean, prefix = ''): TreeEntry[] | null {
+    const entries = this.trees.get(sha);
+    if (!entries) {
+      return null;
+    }
+
+    return entries.flatMap((entry) => {
+      const item = { ...entry, path: prefix + entry.name };
+      return recursive && entry.type === 'tree'
+        ? [item, ...this.listTree(entry.sha, true, `${item.path}/`)!]
+        : [item];
+    });
+  }
+}
+
+/**
+ * Serve one fixture request
+ */
+function serveFixture(repo: FixtureRepository, options: Required<Pick<FakeGitHubOptions, 'owner' | 'name' | 'branch'>>, baseUrl: string, url: URL): { status: number; body: unknown } {
+  const repoPrefix = `/api/v3/repos/${options.owner}/${options.name}/`;
+  const rawPrefix = `/raw/${options.owner}/${options.name}/`;
+  const pathname = decodeURIComponent(url.pathname);
+  const isKnownRef = (ref: string) => ref === options.branch || ref === repo.commitSha || ref === 'HEAD';
+
+  if (pathname === '/api/v3/rate_limit') {
+    const core = { limit: 5000, remaining: 4999, used: 1, reset: 4102444800 };
+    return { status: 200, body: { resources: { core }, rate: core } };
+  }
+
+  if (pathname.startsWith(repoPrefix)) {
+    const route = pathname.substring(repoPrefix.length);
+
+    let match = route.match(/^commits\/(.+)$/);
+    if (match) {
+      return isKnownRef(match[1])
+        ? { status: 200, body: { sha: repo.commitSha, commit: { tree: { sha: repo.rootTree } } } }
+        : { status: 422, body: { message: `No commit found for SHA: ${match[1]}` } };
+    }
+
+    match = route.match(/^compare\/([0-9a-f]{40})\.\.\.(.+)$/);
+    if (match) {
+      if (!isKnownRef(match[2])) {
+        return { status: 404, body: { message: 'Not Found' } };
+      }
+      if (match[1] === repo.commitSha) {
+        return { status: 200, body: { status: 'identical', files: [] } };
+      }
+      return match[1] === repo.parent?.commitSha
+        ? { status: 200, body: { status: 'ahead', files: repo.changesSince(repo.parent) } }
+        : { status: 404, body: { message: 'Not Found' } };
+    }
+
+    match = route.match(/^git\/commits\/([0-9a-f]{40})$/);
+    if (match) {
+      return match[1] === repo.commitSha
+        ? { status: 200, body: { sha: repo.commitSha, tree: { sha: repo.rootTree, url: `${baseUrl}${repoPrefix}git/trees/${repo.rootTree}` } } }
+        : { status: 404, body: { message: 'Not Found' } };
+    }
+
+    match = route.match(/^git\/trees\/([0-9a-f]{40})$/);
+    if (match) {
+      const entries = repo.listTree(match[1], url.searchParams.get('recursive') === '1');
+      if (!entries) {
+        return { status: 404, body: { message: 'Not Found' } };
+      }
+      return {
+        status: 200,
+        body: {
+          sha: match[1],
+          url: `${baseUrl}${repoPrefix}git/trees/${match[1]}`,
+          tree: entries.map(({ name: _name, ...entry }) => ({ ...entry, url: `${baseUrl}${repoPrefix}git/${entry.type}s/${entry.sha}` })),
+          truncated: false,
+        },
+      };
+    }
+
+    match = route.match(/^contents\/?(.*)$/);
+    if (match) {
+      if (!isKnownRef(url.searchParams.get('ref') || options.branch)) {
+        return { status: 404, body: { message: 'No commit found for the ref' } };
+      }
+      const itemPath = match[1].replace(/\/+$/, '');
+      const file = repo.files.get(itemPath);
+      if (file) {
+        return {
+          status: 200,
+          body: { type: 'file', name: path.posix.basename(itemPath), path: itemPath, sha: gitHash('blob', file), size: file.length, encoding: 'base64', content: file.toString('base64') },
+        };
+      }
+      const treeSha = repo.treeShaByPath.get(itemPath);
+      if (!treeSha) {
+        return { status: 404, body: { message: 'Not Found' } };
+      }
+      return {
+        status: 200,
+        body: repo.trees.get(treeSha)!.map((entry) => ({
+          type: entry.type === 'tree' ? 'dir' : 'file',
+          name: entry.name,
+          path: entry.path,
+          sha: entry.sha,
+          size: entry.size ?? 0,
+          url: `${baseUrl}${repoPrefix}contents/${entry.path}`,
+          download_url: entry.type === 'blob' ? `${baseUrl}${rawPrefix}${options.branch}/${entry.path}` : null,
+        })),
+      };
+    }
+  }
+
+  if (pathname.startsWith(rawPrefix)) {
+    const [ref, ...rest] = pathname.substring(rawPrefix.length).split('/');
+    const file = isKnownRef(ref) ? repo.files.get(rest.join('/')) : undefined;
+    return file ? { status: 200, body: file } : { status: 404, body: '404: Not Found' };
+  }
+
+  return { status: 404, body: { message: 'Not Found' } };
+}
+
+/**
+ * Start a fake GitHub server on a free local port
+ */
+export async function startFakeGitHub(options: FakeGitHubOptions = {}): Promise<FakeGitHub> {
+  const mode = options.mode || 'fixture';
+  const repoOptions = { owner: options.owner || 'contoso', name: options.name || 'mini-sentinel', branch: options.branch || 'main' };
+  const upstream = options.upstream || { apiUrl: 'https://api.github.com', rawUrl: 'https://raw.githubusercontent.com' };
+
+  if (mode !== 'fixture' && !options.cassette) {
+    throw new Error(`A cassette path is required in ${mode} mode`);
+  }
+  if (mode === 'fixture' && !options.root) {
+    throw new Error('A fixture root directory is required in fixture mode');
+  }
+
+  const repo =
+    mode === 'fixture'
+      ? new FixtureRepository(options.root!, options.parentRoot ? new FixtureRepository(options.parentRoot) : undefined)
+      : null;
+  const cassette: Record<string, RecordedResponse> =
+    mode === 'replay' ? JSON.parse(fs.readFileSync(options.cassette!, 'utf-8')) : {};
+  const requests: string[] = [];
+  const misses: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const key = `${req.method} ${req.url}`;
+    requests.push(key);
+    const url = new URL(req.url!, baseUrl);
+
+    const send = (status: number, headers: Record<string, string>, body: Buffer) => {
+      res.writeHead(status, headers);
+      res.end(body);
+    };
+
+    if (mode === 'fixture') {
+      const { status, body } = serveFixture(repo!, repoOptions, baseUrl, url);
+      const isRaw = Buffer.isBuffer(body) || typeof body === 'string';
+      send(
+        status,
+        {
+          'content-type': isRaw ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8',
+          ...(url.pathname.startsWith('/api/') && { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4999', 'x-ratelimit-used': '1', 'x-ratelimit-reset': '4102444800', 'x-ratelimit-resource': 'core' }),
+        },
+        isRaw ? Buffer.from(body as Buffer | string) : Buffer.from(JSON.stringify(body))
+      );
+      return;
+    }
+
+    if (mode === 'replay') {
+      const recorded = cassette[key];
+      if (!recorded) {
+        misses.push(key);
+        send(404, { 'content-type': 'application/json' }, Buffer.from(JSON.stringify({ message: `No recorded response for ${key}` })));
+        return;
+      }
+      send(recorded.status, recorded.headers, Buffer.from(recorded.body, 'base64'));
+      return;
+    }
+
+    // Record: forward to the upstream API or raw host
+    const target = url.pathname.startsWith('/api/v3/')
+      ? upstream.apiUrl + req.url!.substring('/api/v3'.length)
+      : upstream.rawUrl + req.url!.substring('/raw'.length);
+    const headers: Record<string, string> = {};
+    for (const name of ['accept', 'authorization']) {
+      if (req.headers[name]) {
+        headers[name] = req.headers[name] as string;
+      }
+    }
+
+    fetch(target, { headers })
+      .then(async (response) => {
+        const body = Buffer.from(await response.arrayBuffer());
+        const kept = Object.fromEntries(RECORDED_HEADERS.filter((name) => response.headers.has(name)).map((name) => [name, response.headers.get(name)!]));
+        cassette[key] = { status: response.status, headers: kept, body: body.toString('base64') };
+        send(response.status, kept, body);
+      })
+      .catch((error) => send(502, { 'content-type': 'text/plain' }, Buffer.from(String(error))));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+
+  return {
+    apiUrl: `${baseUrl}/api/v3`,
+    rawUrl: `${baseUrl}/raw`,
+    commitSha: repo?.commitSha || '',
+    parentSha: repo?.parent?.commitSha,
+    treeSha: (dirPath) => repo?.treeShaByPath.get(dirPath),
+    requests,
+    misses,
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      if (mode === 'record') {
+        fs.writeFileSync(options.cassette!, JSON.stringify(cassette, null, 2) + '\n');
+      }
+    },
+  };
+}
@@ -0,0 +1,555 @@
+#!/usr/bin/env tsx
+/**
+ * GitHub-backed code paths against the fake GitHub server
+ * Runs GitHubClient, SolutionLoader, ContentScanner and every tool over the
+ * mini-sentinel fixture, checks an incremental index build against a full one,
+ * then checks record/replay reproduces a session offline.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { startFakeGitHub, FakeGitHub } from './fake-github.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURE_ROOT = path.join(__dirname, 'fixtures', 'mini-sentinel');
+const FIREWALL = 'Solutions/Contoso Firewall';
+
+const server = await startFakeGitHub({ root: FIXTURE_ROOT });
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-cache-'));
+const indexDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-index-'));
+
+// Configuration is read when the modules load, so set it before importing them
+for (const name of ['MCP_GITHUB_TOKEN', 'GITHUB_TOKEN', 'SENTINEL_OVERLAYS', 'SENTINEL_ACCESS_POLICY', 'SENTINEL_REPO_PATH', 'SENTINEL_REPO_TYPE', 'SENTINEL_REPO_REF', 'SENTINEL_GITHUB_RAW_URL', 'HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy']) {
+  delete process.env[name];
+}
+Object.assign(process.env, {
+  SENTINEL_GITHUB_API_URL: server.apiUrl,
+  SENTINEL_REPO_OWNER: 'contoso',
+  SENTINEL_REPO_NAME: 'mini-sentinel',
+  SENTINEL_REPO_BRANCH: 'main',
+  SENTINEL_CACHE_DIR: cacheDir,
+  SENTINEL_INDEX_DIR: indexDir,
+  SENTINEL_GITHUB_MAX_RETRIES: '0',
+});
+
+const { GitHubClient } = await import('../../src/repository/githubClient.js');
+const { SolutionLoader } = await import('../../src/loaders/solutionLoader.js');
+const { ContentScanner, isInScope } = await import('../../src/loaders/contentScanner.js');
+const { OptimizedIndexBuilder } = await import('../../src/utils/optimizedIndexBuilder.js');
+const { buildIndex } = await import('../../src/utils/indexBuilder.js');
+const { loadPreBuiltIndex } = await import('../../src/utils/indexLoader.js');
+const { buildRepositoryIndex } = await import('../../src/utils/indexRefresh.js');
+const tools = await import('../../src/tools/index.js');
+const { withLogSink } = await import('../../src/utils/logger.js');
+const { BlobCache, getBlobCache, gitBlobSha } = await import('../../src/repository/blobCache.js');
+
+/**
+ * Run with log output captured rather than printed, as the server does per request
+ */
+function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  return withLogSink(() => undefined, fn).then(({ result }) => result);
+}
+
+after(async () => {
+  await server.close();
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+  fs.rmSync(indexDir, { recursive: true, force: true });
+});
+
+describe('GitHubClient', () => {
+  test('pins reads to the branch head commit', async () => {
+    const client = new GitHubClient();
+    assert.equal(await client.getLatestCommitSha(), server.commitSha);
+
+    await client.getFileContent('README.md');
+    const rawRequests = server.requests.filter((r) => r.startsWith('GET /raw/'));
+    assert.ok(rawRequests.length > 0);
+    assert.ok(rawRequests.every((r) => r.includes(`/${server.commitSha}/`)));
+  });
+
+  test('shares a download with callers that were not cancelled', async () => {
+    const client = new GitHubClient();
+    const cancelled = new AbortController();
+    const first = client.getFileContent('README.md', cancelled.signal);
+    const second = client.getFileContent('README.md');
+    cancelled.abort(new Error('cancelled'));
+
+    await assert.rejects(first, /cancelled/);
+    assert.equal(await second, fs.readFileSync(path.join(FIXTURE_ROOT, 'README.md'), 'utf-8'));
+  });
+
+  test('reads trees, directories and files', async () => {
+    const client = new GitHubClient();
+    const tree = await client.getTree();
+    assert.ok(tree.tree.some((item) => item.path === `${FIREWALL}/Data Connectors/ContosoFirewall.json`));
+
+    const listing = await client.listDirectory(FIREWALL);
+    assert.deepEqual(
+      listing.map((item) => item.path).sort(),
+      ['Analytic Rules', 'Data', 'Data Connectors', 'Hunting Queries', 'Parsers', 'Playbooks', 'SolutionMetadata.json', 'Workbooks'].map((name) => `${FIREWALL}/${name}`)
+    );
+
+    const content = await client.getFileContent(`${FIREWALL}/SolutionMetadata.json`);
+    assert.equal(JSON.parse(content).publisherId, 'contoso');
+  });
+
+  test('lists one solution without fetching the whole tree', async () => {
+    const client = new GitHubClient();
+    const start = server.requests.length;
+    const items = await client.getSubtree(FIREWALL);
+
+    assert.ok(items.some((item) => item.path === `${FIREWALL}/Parsers/ContosoFirewallEvent.yaml`));
+    assert.ok(items.every((item) => item.path.startsWith(`${FIREWALL}/`)));
+    // Only the solution's own tree is listed recursively
+    assert.deepEqual(
+      server.requests.slice(start).filter((r) => r.endsWith('?recursive=1')),
+      [`GET /api/v3/repos/contoso/mini-sentinel/git/trees/${server.treeSha(FIREWALL)}?recursive=1`]
+    );
+    assert.deepEqual(await client.getSubtree('Solutions/Missing'), []);
+  });
+
+  test('rejects an unknown ref', async () => {
+    const client = new GitHubClient({ ref: 'no-such-tag' });
+    await assert.rejects(client.getFileContent('README.md'), /Repository ref not found: no-such-tag/);
+  });
+});
+
+describe('BlobCache', () => {
+  test('clear removes its own files only', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-blobs-'));
+    try {
+      const cache = new BlobCache({ directory });
+      const content = Buffer.from('detection');
+      const sha = gitBlobSha(content);
+      await cache.set(sha, content);
+      fs.writeFileSync(path.join(directory, 'notes.txt'), 'kept');
+      fs.writeFileSync(path.join(directory, sha.substring(0, 2), 'notes.txt'), 'kept');
+
+      const removed = await cache.clear();
+      assert.equal(removed.entries, 1);
+      assert.equal(await cache.get(sha), null);
+      assert.ok(!fs.existsSync(path.join(directory, sha.substring(0, 2), sha)));
+      assert.ok(fs.existsSync(path.join(directory, 'notes.txt')));
+      assert.ok(fs.existsSync(path.join(directory, sha.substring(0, 2), 'notes.txt')));
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SolutionLoader', () => {
+  test('maps connectors to tables', async () => {
+    const result = await quietly(() => new SolutionLoader(new GitHubClient()).analyze());
+
+    assert.equal(result.metadata.totalSolutions, 2);
+    assert.equal(result.metadata.repositoryCommit, server.commitSha);
+    const tables = result.mappings.map((m) => `${m.connectorId}:${m.tableName}`).sort();
+    assert.deepEqual(tables, ['ContosoFirewall:ContosoFirewall_CL', 'ContosoIdentity:ContosoSignIn_CL']);
+  });
+});
+
+describe('ContentScanner', () => {
+  const scans = {
+    listDetections: 1,
+    listWorkbooks: 1,
+    listHuntingQueries: 1,
+    listPlaybooks: 1,
+    listParsers: 2, // the solution parser and the ASIM parser
+    listWatchlists: 1,
+    listNotebooks: 1,
+    listExplorationQueries: 1,
+    listFunctions: 1,
+    listASIMContent: 1,
+    listSummaryRules: 1,
+    listTools: 1,
+    listTutorials: 1,
+    listDashboards: 1,
+    listDataConnectors: 1,
+  } as const;
+
+  for (const [method, expected] of Object.entries(scans)) {
+    test(method, async () => {
+      const scanner = new ContentScanner(new GitHubClient());
+      const items = await quietly(() => (scanner[method as keyof typeof scans] as () => Promise<unknown[]>).call(scanner));
+      assert.equal(items.length, expected);
+    });
+  }
+});
+
+describe('tools', () => {
+  const tested = new Set<string>();
+  const firewallConnector = fs.readFileSync(path.join(FIXTURE_ROOT, FIREWALL, 'Data Connectors', 'ContosoFirewall.json'), 'utf-8');
+
+  /**
+   * Validate input with the tool's own schema and run it, as the server does
+   * Tests run in order, so analysis results are there for the tools reading them.
+   */
+  function toolTest<S extends z.ZodType, R>(
+    tool: { name: string; inputSchema: S; execute(args: z.output<S>): Promise<R> },
+    input: z.input<S>,
+    check: (result: R) => void
+  ): void {
+    tested.add(tool.name);
+    test(tool.name, async () => check(await quietly(() => tool.execute(tool.inputSchema.parse(input)))));
+  }
+
+  /**
+   * Names of the items on a page, sorted
+   */
+  function names(page: { items: Array<{ name?: string }> }): Array<string | undefined> {
+    return page.items.map((item) => item.name).sort();
+  }
+
+  toolTest(tools.analyzeSolutionsTool, { force_refresh: true }, (result) => {
+    assert.equal(result.metadata.repositoryCommit, server.commitSha);
+    assert.equal(result.metadata.totalSolutions, 2);
+  });
+
+  toolTest(tools.getConnectorTablesTool, { connector_id: 'ContosoFirewall' }, (result) => {
+    assert.ok(result);
+    assert.equal(result.connectorTitle, 'Contoso Firewall');
+    assert.deepEqual(result.tables, [{ tableName: 'ContosoFirewall_CL', detectionMethod: 'graphQueries.0.baseQuery' }]);
+  });
+
+  toolTest(tools.searchSolutionsTool, { query: 'firewall' }, (result) => {
+    assert.deepEqual(result.solutions.map((s) => [s.name, s.version, s.connectorCount]), [['Contoso Firewall', '3.0.1', 1]]);
+  });
+
+  toolTest(tools.getSolutionDetailsTool, { solution_name: 'Contoso Firewall' }, (result) => {
+    assert.ok(result);
+    assert.equal(result.metadata.publisher, 'contoso');
+    assert.deepEqual(result.connectors.map((c) => [c.id, c.tables]), [['ContosoFirewall', ['ContosoFirewall_CL']]]);
+    assert.deepEqual(result.uniqueTables, ['ContosoFirewall_CL']);
+  });
+
+  toolTest(tools.getSolutionDetailsTool, { solution_name: 'Contoso Identity', repository_ref: server.commitSha }, (result) => {
+    assert.ok(result);
+    assert.equal(result.metadata.version, '1.2.0');
+    assert.deepEqual(result.uniqueTables, ['ContosoSignIn_CL']);
+  });
+
+  test('solution tools read the repository ref named in the call', async () => {
+    const result = await quietly(() => tools.searchSolutionsTool.execute({ query: 'identity', repository_ref: server.commitSha }));
+    assert.deepEqual(result.solutions.map((s) => s.name), ['Contoso Identity']);
+
+    await assert.rejects(
+      quietly(() => tools.listTablesTool.execute({ repository_ref: 'no-such-tag' })),
+      /Repository ref not found: no-such-tag/
+    );
+  });
+
+  toolTest(tools.listTablesTool, {}, (result) => {
+    assert.equal(result.total, 2);
+    assert.deepEqual(
+      result.items.map((t) => [t.tableName, t.isCustomLog, t.connectors?.map((c) => c.connectorId)]),
+      [
+        ['ContosoFirewall_CL', true, ['ContosoFirewall']],
+        ['ContosoSignIn_CL', true, ['ContosoIdentity']],
+      ]
+    );
+  });
+
+  toolTest(tools.validateConnectorTool, { connector_json: firewallConnector }, (result) => {
+    assert.equal(result.isValid, true);
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.extractedTables, ['ContosoFirewall_CL']);
+  });
+
+  toolTest(tools.listDetectionsTool, { force_refresh: true, tactic: 'Discovery' }, (result) => {
+    assert.equal(result.total, 1);
+    assert.equal(result.items[0].id, '6f1a2b3c-0000-4000-8000-000000000001');
+    assert.equal(result.items[0].severity, 'Medium');
+  });
+
+  toolTest(tools.getDetectionDetailsTool, { detection_id: '6f1a2b3c-0000-4000-8000-000000000001', force_refresh: true }, (result) => {
+    assert.ok(result);
+    assert.equal(result.name, 'Contoso Firewall - port scan detected');
+    assert.deepEqual(result.tactics, ['Discovery']);
+    assert.match(result.query || '', /dcount\(DestinationPort\)/);
+  });
+
+  toolTest(tools.listWorkbooksTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((w) => [w.name, w.solution]), [['ContosoFirewall', 'Contoso Firewall']]);
+  });
+
+  toolTest(tools.getWorkbookDetailsTool, { workbook_id: `${FIREWALL}/Workbooks/ContosoFirewall.json`, force_refresh: true }, (result) => {
+    assert.ok(result);
+    assert.equal(result.name, 'ContosoFirewall');
+    assert.equal(result.solution, 'Contoso Firewall');
+  });
+
+  toolTest(tools.listHuntingQueriesTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(names(result), ['Contoso Firewall - rare destinations']);
+    assert.equal(result.items[0].id, '6f1a2b3c-0000-4000-8000-000000000002');
+  });
+
+  toolTest(tools.listPlaybooksTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((p) => [p.name, p.solution]), [['Block-IP', 'Contoso Firewall']]);
+  });
+
+  toolTest(tools.listParsersTool, { force_refresh: true }, (result) => {
+    // The solution parser and the ASIM parser
+    assert.deepEqual(names(result), ['ASimNetworkSessionContoso.yaml', 'ContosoFirewallEvent.yaml']);
+  });
+
+  toolTest(tools.listWatchlistsTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((w) => w.id), ['Watchlists/HighValueAssets.json']);
+  });
+
+  toolTest(tools.listNotebooksTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((n) => n.id), ['Notebooks/Investigate-Contoso.ipynb']);
+  });
+
+  toolTest(tools.listExplorationQueriesTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(names(result), ['Firewall overview']);
+  });
+
+  toolTest(tools.listFunctionsTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(names(result), ['GetContosoAssets']);
+  });
+
+  toolTest(tools.listASIMContentTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((a) => a.id), ['ASIM/Parsers/ASimNetworkSessionContoso.yaml']);
+  });
+
+  toolTest(tools.listSummaryRulesTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(names(result), ['Hourly firewall summary']);
+  });
+
+  toolTest(tools.listToolsTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((t) => [t.id, t.name]), [['Tools/LogGenerator', 'LogGenerator']]);
+  });
+
+  toolTest(tools.listTutorialsTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(names(result), ['Getting-Started']);
+  });
+
+  toolTest(tools.listDashboardsTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(names(result), ['Contoso overview']);
+  });
+
+  toolTest(tools.listDataConnectorsTool, { force_refresh: true }, (result) => {
+    assert.deepEqual(result.items.map((c) => c.id), ['DataConnectors/ContosoSyslog']);
+  });
+
+  toolTest(tools.getRateLimitStatusTool, {}, (result) => {
+    assert.equal(result.authenticated, false);
+    assert.equal(result.resources.core.limit, 5000);
+  });
+
+  toolTest(tools.buildIndexTool, {}, (result) => {
+    assert.equal(result.mode, 'full');
+    assert.equal(result.directory, indexDir);
+    assert.equal(result.commit, server.commitSha);
+    assert.equal(result.stats.totalDetections, 1);
+  });
+
+  test('tags copies of the loaded index items with their source', async () => {
+    const result = await quietly(() => tools.listDetectionsTool.execute(tools.listDetectionsTool.inputSchema.parse({})));
+    assert.deepEqual(result.items.map((d) => d.source), ['upstream']);
+
+    const index = loadPreBuiltIndex();
+    assert.ok(index?.detections);
+    assert.deepEqual(index.detections.map((d) => d.source), [undefined]);
+  });
+
+  test('pages through a force_refresh listing from the same source', async () => {
+    const list = tools.listParsersTool;
+    const first = await quietly(() => list.execute(list.inputSchema.parse({ force_refresh: true, limit: 1 })));
+    assert.equal(first.total, 2);
+    assert.ok(first.next_cursor);
+
+    // The index exists by now; a second page read from it would not reach GitHub
+    const before = server.requests.length;
+    const second = await quietly(() => list.execute(list.inputSchema.parse({ cursor: first.next_cursor })));
+    assert.ok(server.requests.length > before, 'the second page was not read live');
+    assert.equal(second.next_cursor, undefined);
+    assert.deepEqual([...names(first), ...names(second)].sort(), ['ASimNetworkSessionContoso.yaml', 'ContosoFirewallEvent.yaml']);
+  });
+
+  toolTest(tools.clearCacheTool, {}, (result) => {
+    assert.equal(result.directory, cacheDir);
+    assert.ok(result.entriesRemoved > 0, 'the scans above cached no files');
+  });
+
+  test('covers every tool', () => {
+    assert.deepEqual(tools.allTools.map((tool) => tool.name).filter((name) => !tested.has(name)), []);
+  });
+});
+
+describe('incremental index build', () => {
+  // The fixture with one detection edited, a function removed and a tool's README extended
+  const changedRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-changed-'));
+  const detectionPath = `${FIREWALL}/Analytic Rules/PortScan.yaml`;
+  let next: FakeGitHub;
+
+  before(async () => {
+    fs.cpSync(FIXTURE_ROOT, changedRoot, { recursive: true });
+    const detection = path.join(changedRoot, detectionPath);
+    fs.writeFileSync(detection, fs.readFileSync(detection, 'utf-8').replace('severity: Medium', 'severity: High'));
+    fs.rmSync(path.join(changedRoot, 'Functions', 'GetContosoAssets.kql'));
+    fs.appendFileSync(path.join(changedRoot, 'Tools', 'LogGenerator', 'README.md'), '\nNow with more events.\n');
+    next = await startFakeGitHub({ root: changedRoot, parentRoot: FIXTURE_ROOT });
+  });
+
+  after(async () => {
+    await next.close();
+    fs.rmSync(changedRoot, { recursive: true, force: true });
+  });
+
+  /**
+   * Analyze solutions and scan every content type through a client
+   */
+  async function analyze(client: InstanceType<typeof GitHubClient>, solutions?: Set<string>, scope?: Set<string>) {
+    const result = await new SolutionLoader(client).analyze(solutions);
+    const scanner = new ContentScanner(client, {}, scope);
+    return {
+      ...result,
+      detections: await scanner.listDetections(),
+      workbooks: await scanner.listWorkbooks(),
+      huntingQueries: await scanner.listHuntingQueries(),
+      playbooks: await scanner.listPlaybooks(),
+      parsers: await scanner.listParsers(),
+      watchlists: await scanner.listWatchlists(),
+      notebooks: await scanner.listNotebooks(),
+      explorationQueries: await scanner.listExplorationQueries(),
+      functions: await scanner.listFunctions(),
+      asimContent: await scanner.listASIMContent(),
+      summaryRules: await scanner.listSummaryRules(),
+      tools: await scanner.listTools(),
+      tutorials: await scanner.listTutorials(),
+      dashboards: await scanner.listDashboards(),
+      dataConnectors: await scanner.listDataConnectors(),
+    };
+  }
+
+  test('lists the paths changed since a commit', async () => {
+    const client = new GitHubClient({ apiUrl: next.apiUrl, rawUrl: next.rawUrl });
+    assert.equal(next.parentSha, server.commitSha);
+    assert.deepEqual(await client.getChangedPaths(server.commitSha), [
+      'Functions/GetContosoAssets.kql',
+      detectionPath,
+      'Tools/LogGenerator/README.md',
+    ]);
+    assert.deepEqual(await client.getChangedPaths(next.commitSha), []);
+    assert.equal(await quietly(() => client.getChangedPaths('0'.repeat(40))), null);
+  });
+
+  test('patches an index to match a full build', async () => {
+    const previous = OptimizedIndexBuilder.build(await quietly(() => analyze(new GitHubClient())));
+
+    const client = new GitHubClient({ apiUrl: next.apiUrl, rawUrl: next.rawUrl });
+    const scope = new Set([...(await client.getChangedPaths(server.commitSha))!, 'Tools/LogGenerator']);
+    const changes = await quietly(() => analyze(client, new Set(['Contoso Firewall']), scope));
+    assert.equal(changes.detections.length, 1);
+    assert.equal(changes.functions.length, 0);
+
+    const patched = OptimizedIndexBuilder.patch(
+      previous,
+      changes,
+      (filePath) => isInScope(filePath, scope),
+      new Set([FIREWALL])
+    );
+    const full = OptimizedIndexBuilder.build(await quietly(() => analyze(client)));
+
+    const comparable = (index: typeof full) => {
+      const content = Object.fromEntries(
+        Object.entries(index.content).map(([key, items]) => [key, [...(items || [])].sort((a, b) => a.filePath!.localeCompare(b.filePath!))])
+      );
+      return { ...index, generatedAt: undefined, content, mappings: [...index.mappings].sort((a, b) => a.tableName.localeCompare(b.tableName)) };
+    };
+    assert.equal(patched.repositoryCommit, next.commitSha);
+    assert.equal(patched.content.detections[0].severity, 'High');
+    assert.deepEqual(comparable(patched), comparable(full));
+  });
+
+  test('rebuilds in full over an index from another repository', async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-index-'));
+    try {
+      const first = await quietly(() => buildIndex(new GitHubClient(), outputDir));
+      assert.equal(first.index.repository, `github:${server.apiUrl}/contoso/mini-sentinel@main`.toLowerCase());
+
+      // Only served for the repository it was built from
+      assert.ok(loadPreBuiltIndex(outputDir, first.index.repository));
+      assert.equal(await quietly(async () => loadPreBuiltIndex(outputDir, 'github:/azure/azure-sentinel@master')), null);
+
+      const again = await quietly(() => buildIndex(new GitHubClient(), outputDir, { incremental: true }));
+      assert.equal(again.mode, 'unchanged');
+
+      // Same owner, name and branch on another instance is another repository
+      const other = new GitHubClient({ apiUrl: next.apiUrl, rawUrl: next.rawUrl });
+      const rebuilt = await quietly(() => buildIndex(other, outputDir, { incremental: true }));
+      assert.equal(rebuilt.mode, 'full');
+      assert.equal(rebuilt.index.repository, `github:${next.apiUrl}/contoso/mini-sentinel@main`.toLowerCase());
+      assert.equal(rebuilt.index.content.detections[0].severity, 'High');
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('shared index build', () => {
+  test('outlives a cancelled caller and reports one running total', async () => {
+    const repository = { ref: server.commitSha };
+    const cancelled = new AbortController();
+    const progress: number[] = [];
+
+    const first = quietly(() => buildRepositoryIndex(repository, { incremental: false }, { signal: cancelled.signal }));
+    const second = quietly(() =>
+      buildRepositoryIndex(repository, { incremental: false }, { onProgress: (processed) => progress.push(processed) })
+    );
+    cancelled.abort(new Error('cancelled'));
+
+    await assert.rejects(first, /cancelled/);
+    const build = await second;
+    assert.equal(build.mode, 'full');
+    assert.equal(build.index.repositoryCommit, server.commitSha);
+    assert.ok(progress.length > 1);
+    assert.deepEqual(progress, [...progress].sort((a, b) => a - b));
+  });
+});
+
+describe('record and replay', () => {
+  const cassette = path.join(os.tmpdir(), `sentinel-test-cassette-${process.pid}.json`);
+
+  after(() => fs.rmSync(cassette, { force: true }));
+
+  /**
+   * Read a few files through a server and return what the client saw
+   */
+  async function session(target: FakeGitHub): Promise<string[]> {
+    const client = new GitHubClient({ apiUrl: target.apiUrl, rawUrl: target.rawUrl });
+    const items = await client.getSubtree(FIREWALL);
+    const files = items.filter((item) => item.type === 'blob').map((item) => item.path).sort();
+    const contents = await Promise.all(files.map((file) => client.getFileContent(file)));
+    return [await client.getLatestCommitSha(), ...files, ...contents];
+  }
+
+  test('replays a recorded session without the upstream', async () => {
+    // Record from an empty blob cache so every file goes through the recorder
+    await getBlobCache().clear();
+    const recorder = await startFakeGitHub({ mode: 'record', cassette, upstream: { apiUrl: server.apiUrl, rawUrl: server.rawUrl } });
+    const recorded = await session(recorder);
+    await recorder.close();
+
+    // Empty the blob cache so replay has to serve every file
+    await getBlobCache().clear();
+
+    const player = await startFakeGitHub({ mode: 'replay', cassette });
+    try {
+      assert.deepEqual(await session(player), recorded);
+      assert.deepEqual(player.misses, []);
+
+      const response = await fetch(`${player.apiUrl}/repos/contoso/mini-sentinel/commits/other`);
+      assert.equal(response.status, 404);
+      assert.equal(player.misses.length, 1);
+    } finally {
+      await player.close();
+    }
+  });
+});
@@ -0,0 +1,198 @@
+#!/usr/bin/env tsx
+/**
+ * Streamable HTTP transport
+ * Starts the server on a free port and checks sessions - initialize, reuse,
+ * DELETE, expiry and unknown sessions - and the request checks in front of them.
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { request } from 'http';
+
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-cache-'));
+
+// Configuration is read when the modules load, so set it before importing them
+for (const name of ['MCP_GITHUB_TOKEN', 'GITHUB_TOKEN', 'SENTINEL_OVERLAYS', 'SENTINEL_ACCESS_POLICY', 'MCP_HTTP_ALLOWED_HOSTS', 'MCP_HTTP_ALLOWED_ORIGINS']) {
+  delete process.env[name];
+}
+Object.assign(process.env, { SENTINEL_CACHE_DIR: cacheDir, SENTINEL_INDEX_DIR: cacheDir });
+
+const { startHttpServer } = await import('../../src/transports/httpTransport.js');
+const { allTools } = await import('../../src/tools/index.js');
+
+const PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * A port nothing listens on
+ */
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/**
+ * Server on a free port, with its URL and shutdown function
+ */
+async function startServer(config: { sessionIdleMs?: number } = {}) {
+  const port = await freePort();
+  const shutdown = await startHttpServer({ port, ...config });
+  return { url: `http://127.0.0.1:${port}/mcp`, shutdown };
+}
+
+/**
+ * Send a request to the server; bodies of JSON-RPC responses sent as server-sent events are unwrapped
+ */
+async function send(
+  url: string,
+  method: string,
+  options: { body?: unknown; sessionId?: string; headers?: Record<string, string> } = {}
+): Promise<{ status: number; sessionId: string | null; body: any }> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'Mcp-Protocol-Version': PROTOCOL_VERSION,
+      ...(options.sessionId && { 'Mcp-Session-Id': options.sessionId }),
+      ...options.headers,
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+  const text = await response.text();
+  const data = text.match(/^data: (.*)$/m)?.[1] ?? text;
+  return { status: response.status, sessionId: response.headers.get('mcp-session-id'), body: data ? JSON.parse(data) : undefined };
+}
+
+/**
+ * Start a session and return its ID
+ */
+async function initialize(url: string): Promise<string> {
+  const response = await send(url, 'POST', {
+    body: {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'test-http', version: '1.0.0' } },
+    },
+  });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.result.serverInfo.name, 'sentinel-analyzer');
+  assert.ok(response.sessionId);
+
+  const initialized = await send(url, 'POST', {
+    sessionId: response.sessionId,
+    body: { jsonrpc: '2.0', method: 'notifications/initialized' },
+  });
+  assert.equal(initialized.status, 202);
+  return response.sessionId;
+}
+
+/**
+ * List the tools in a session
+ */
+function listTools(url: string, sessionId: string) {
+  return send(url, 'POST', { sessionId, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+}
+
+after(() => fs.rmSync(cacheDir, { recursive: true, force: true }));
+
+describe('sessions', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.shutdown());
+
+  test('initialize starts a session that later requests reuse', async () => {
+    const sessionId = await initialize(server.url);
+
+    for (let i = 0; i < 2; i++) {
+      const response = await listTools(server.url, sessionId);
+      assert.equal(response.status, 200);
+      assert.equal(response.body.result.tools.length, allTools.length);
+    }
+  });
+
+  test('each initialize starts its own session', async () => {
+    assert.notEqual(await initialize(server.url), await initialize(server.url));
+  });
+
+  test('DELETE ends a session', async () => {
+    const sessionId = await initialize(server.url);
+    assert.equal((await send(server.url, 'DELETE', { sessionId })).status, 200);
+    assert.equal((await listTools(server.url, sessionId)).status, 404);
+  });
+
+  test('answers unknown sessions with 404', async () => {
+    const sessionId = '00000000-0000-4000-8000-000000000000';
+    assert.equal((await listTools(server.url, sessionId)).status, 404);
+    assert.equal((await send(server.url, 'GET', { sessionId })).status, 404);
+    assert.equal((await send(server.url, 'DELETE', { sessionId })).status, 404);
+  });
+
+  test('refuses requests without a session other than initialize', async () => {
+    const response = await send(server.url, 'POST', { body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('session expiry', () => {
+  test('closes sessions idle for longer than sessionIdleMs', async () => {
+    const server = await startServer({ sessionIdleMs: 100 });
+    try {
+      const sessionId = await initialize(server.url);
+      assert.equal((await listTools(server.url, sessionId)).status, 200);
+
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      assert.equal((await listTools(server.url, sessionId)).status, 404);
+    } finally {
+      await server.shutdown();
+    }
+  });
+});
+
+describe('request checks', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.shutdown());
+
+  test('refuses request bodies over 4 MB with 413', async () => {
+    const response = await send(server.url, 'POST', {
+      body: { jsonrpc: '2.0', id: 1, method: 'tools/list', params: { padding: 'x'.repeat(4 * 1024 * 1024) } },
+    });
+    assert.equal(response.status, 413);
+  });
+
+  test('refuses a Host or Origin the server is not reached by', async () => {
+    const { port } = new URL(server.url);
+    const post = (headers: Record<string, string>) =>
+      new Promise<number | undefined>((resolve, reject) => {
+        // fetch() cannot set Host
+        const req = request({ host: '127.0.0.1', port, path: '/mcp', method: 'POST', headers }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        });
+        req.on('error', reject);
+        req.end('{}');
+      });
+
+    assert.equal(await post({ Host: `attacker.example:${port}` }), 403);
+    assert.equal(await post({ Host: `localhost:${port}`, Origin: 'http://attacker.example' }), 403);
+    // Past the checks, refused for the missing session instead
+    assert.equal(await post({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` }), 400);
+  });
+});
@@ -31,8 +31,8 @@ if (existsSync(indexPath)) {
 
   console.log(`\n✅ Index loaded in ${elapsed}ms`);
 
-  // Detect if this is optimized format (version 2.x) or legacy format
-  const isOptimized = index.version && index.version.startsWith('2.');
+  // Detect if this is optimized format (version 2.x or 3.x) or legacy format
+  const isOptimized = index.version && /^[23]\./.test(index.version);
   const stats = isOptimized ? index.stats : index.metadata;
   const generatedAt = isOptimized ? index.generatedAt : index.metadata?.preBuiltAt;
   const version = isOptimized ? index.version : index.metadata?.version;
@@ -49,7 +49,8 @@ if (existsSync(indexPath)) {
   console.log(`    - Hunting Queries: ${stats.totalHuntingQueries}`);
   console.log(`    - Playbooks: ${stats.totalPlaybooks}`);
   console.log(`    - Parsers: ${stats.totalParsers}`);
-  if (!isOptimized) {
+  // Optimized v2 indexes only carry the five types above
+  if (!isOptimized || !index.version.startsWith('2.')) {
     console.log(`    - Watchlists: ${stats.totalWatchlists || 0}`);
     console.log(`    - Notebooks: ${stats.totalNotebooks || 0}`);
     console.log(`    - Exploration Queries: ${stats.totalExplorationQueries || 0}`);
@@ -61,6 +62,9 @@ if (existsSync(indexPath)) {
     console.log(`    - Dashboards: ${stats.totalDashboards || 0}`);
     console.log(`    - Data Connectors: ${stats.totalDataConnectors || 0}`);
   }
+  if (index.queryStore) {
+    console.log(`  Query store: ${index.queryStore.file} (${index.queryStore.count} queries, exists: ${existsSync(join(distDir, index.queryStore.file))})`);
+  }
   console.log(`  Metadata:`);
   console.log(`    - Built at: ${generatedAt}`);
   console.log(`    - Version: ${version}`);
@@ -0,0 +1,550 @@
+#!/usr/bin/env tsx
+/**
+ * Code paths that need no GitHub
+ * Checks the access policy's decisions against SENTINEL_ACCESS_POLICY, the
+ * validation of repository names and refs in tool arguments, archive
+ * extraction against archives built here with small extraction limits, local
+ * and archive content sources, overlays over the fixture repository, and
+ * cursor pagination and projection.
+ */
+
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { fileURLToPath } from 'url';
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-test-local-'));
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'mini-sentinel');
+const PORT_SCAN_ID = '6f1a2b3c-0000-4000-8000-000000000001';
+const RULES_DIR = 'Solutions/Contoso Firewall/Analytic Rules';
+
+/**
+ * Overlay directory in the work directory holding detections, keyed by file name
+ */
+function overlay(name: string, detections: Record<string, { id: string; name: string; severity: string }>): string {
+  const root = path.join(workDir, name);
+  fs.mkdirSync(path.join(root, RULES_DIR), { recursive: true });
+  for (const [file, detection] of Object.entries(detections)) {
+    const yaml = Object.entries(detection).map(([key, value]) => `${key}: ${value}`).join('\n');
+    fs.writeFileSync(path.join(root, RULES_DIR, file), `${yaml}\nquery: ContosoFirewallEvent\n`);
+  }
+  return root;
+}
+
+// Configuration is read when the modules load, so set it before importing them
+for (const name of ['MCP_GITHUB_TOKEN', 'GITHUB_TOKEN', 'SENTINEL_OVERLAYS', 'SENTINEL_REPO_PATH', 'SENTINEL_REPO_TYPE', 'SENTINEL_REPO_REF']) {
+  delete process.env[name];
+}
+Object.assign(process.env, {
+  SENTINEL_ACCESS_POLICY: JSON.stringify({
+    repositories: [
+      { repository: 'Azure/*' },
+      { repository: 'contoso/sentinel-*', branches: ['main', 'release/*'], auth: 'token' },
+    ],
+    defaultAuth: 'anonymous',
+    allowRepositoryPath: true,
+  }),
+  SENTINEL_ARCHIVE_MAX_ENTRY_MB: '1',
+  SENTINEL_ARCHIVE_MAX_TOTAL_MB: '2',
+  SENTINEL_ARCHIVE_MAX_ENTRIES: '100',
+  SENTINEL_CACHE_DIR: path.join(workDir, 'cache'),
+  SENTINEL_INDEX_DIR: path.join(workDir, 'index'),
+  SENTINEL_REPO_PATH: FIXTURE,
+  // Listed highest precedence first: private overrides team, both override the fixture
+  SENTINEL_OVERLAYS: JSON.stringify([
+    {
+      id: 'private',
+      path: overlay('overlay-private', { 'PortScan.yaml': { id: PORT_SCAN_ID, name: 'Port scan (private)', severity: 'High' } }),
+    },
+    {
+      id: 'team',
+      path: overlay('overlay-team', {
+        'PortScan.yaml': { id: PORT_SCAN_ID, name: 'Port scan (team)', severity: 'Low' },
+        'Beaconing.yaml': { id: '6f1a2b3c-0000-4000-8000-000000000099', name: 'Beaconing (team)', severity: 'Medium' },
+      }),
+    },
+  ]),
+});
+
+const { authorizeRepository } = await import('../../src/repository/accessPolicy.js');
+const { DEFAULT_REPOSITORY_CONFIG } = await import('../../src/types/repository.js');
+const tools = await import('../../src/tools/index.js');
+const { extractArchive } = await import('../../src/repository/archiveExtractor.js');
+const { createContentSource } = await import('../../src/repository/clientFactory.js');
+const { paginate, projectPage, resolveCursor } = await import('../../src/utils/contentFilters.js');
+
+type RepositoryConfig = typeof DEFAULT_REPOSITORY_CONFIG;
+
+const COMMIT = '0123456789abcdef0123456789abcdef01234567';
+const MB = 1024 * 1024;
+
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+/**
+ * Archive entry: a file with its content, or a directory when data is omitted
+ */
+interface Entry {
+  name: string;
+  data?: string | Buffer;
+}
+
+/**
+ * Tar archive of the entries, with a pax global header holding the commit
+ */
+function tarArchive(entries: Entry[], commit?: string): Buffer {
+  const block = (name: string, typeFlag: string, data: Buffer) => {
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('00000000000\0', 136);
+    header.write('        ', 148);
+    header.write(typeFlag, 156);
+    header.write('ustar\0' + '00', 257);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+    return Buffer.concat([header, data, Buffer.alloc(Math.ceil(data.length / 512) * 512 - data.length)]);
+  };
+
+  const blocks = commit ? [block('pax_global_header', 'g', Buffer.from(`52 comment=${commit}\n`))] : [];
+  for (const entry of entries) {
+    blocks.push(entry.data === undefined ? block(entry.name, '5', Buffer.alloc(0)) : block(entry.name, '0', Buffer.from(entry.data)));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+/**
+ * Zip archive of the entries, deflated unless stored is set, with the commit
+ * as its comment; zip64 moves sizes and offsets to the zip64 records.
+ * declaredSize overrides the uncompressed size recorded for every entry.
+ */
+function zipArchive(entries: Entry[], options: { commit?: string; zip64?: boolean; stored?: boolean; declaredSize?: number } = {}): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.data === undefined ? `${entry.name.replace(/\/$/, '')}/` : entry.name);
+    const raw = Buffer.from(entry.data ?? '');
+    const data = options.stored ? raw : zlib.deflateRawSync(raw);
+    const method = options.stored ? 0 : 8;
+    const uncompressedSize = options.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(options.zip64 ? 45 : 20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(uncompressedSize, 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, data);
+
+    const extra = Buffer.alloc(options.zip64 ? 28 : 0);
+    if (options.zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(uncompressedSize), 4);
+      extra.writeBigUInt64LE(BigInt(data.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(options.zip64 ? 45 : 20, 6);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt32LE(options.zip64 ? 0xffffffff : data.length, 20);
+    header.writeUInt32LE(options.zip64 ? 0xffffffff : uncompressedSize, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(options.zip64 ? 0xffffffff : offset, 42);
+    central.push(header, name, extra);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const comment = Buffer.from(options.commit || '');
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(options.zip64 ? 0xffff : entries.length, 8);
+  end.writeUInt16LE(options.zip64 ? 0xffff : entries.length, 10);
+  end.writeUInt32LE(options.zip64 ? 0xffffffff : directory.length, 12);
+  end.writeUInt32LE(options.zip64 ? 0xffffffff : offset, 16);
+  end.writeUInt16LE(comment.length, 20);
+
+  if (!options.zip64) {
+    return Buffer.concat([...parts, directory, end, comment]);
+  }
+
+  const record = Buffer.alloc(56);
+  record.writeUInt32LE(0x06064b50, 0);
+  record.writeBigUInt64LE(44n, 4);
+  record.writeUInt16LE(45, 12);
+  record.writeUInt16LE(45, 14);
+  record.writeBigUInt64LE(BigInt(entries.length), 24);
+  record.writeBigUInt64LE(BigInt(entries.length), 32);
+  record.writeBigUInt64LE(BigInt(directory.length), 40);
+  record.writeBigUInt64LE(BigInt(offset), 48);
+  const locator = Buffer.alloc(20);
+  locator.writeUInt32LE(0x07064b50, 0);
+  locator.writeBigUInt64LE(BigInt(offset + directory.length), 8);
+  locator.writeUInt32LE(1, 16);
+  return Buffer.concat([...parts, directory, record, locator, end, comment]);
+}
+
+let archives = 0;
+
+/**
+ * Write an archive to a new file and return its path
+ */
+function writeArchive(extension: string, data: Buffer): string {
+  const file = path.join(workDir, `archive-${++archives}${extension}`);
+  fs.writeFileSync(file, data);
+  return file;
+}
+
+const REPOSITORY_ENTRIES: Entry[] = [
+  { name: 'Azure-Sentinel-main/' },
+  { name: 'Azure-Sentinel-main/Solutions/' },
+  { name: 'Azure-Sentinel-main/Solutions/Contoso/Data/Solution_Contoso.json', data: '{"Name": "Contoso"}' },
+  { name: 'Azure-Sentinel-main/README.md', data: '# Sentinel\n' },
+];
+
+/**
+ * A GitHub repository as a tool call would name it
+ */
+function repository(owner: string, name: string, branch: string, extra: Partial<RepositoryConfig> = {}): RepositoryConfig {
+  return { ...DEFAULT_REPOSITORY_CONFIG, owner, name, branch, sourceType: 'github', localPath: undefined, ...extra };
+}
+
+describe('repository arguments', () => {
+  const schema = tools.searchSolutionsTool.inputSchema;
+  const query = 'firewall';
+
+  test('reject owner and repository names outside the GitHub charset', () => {
+    for (const args of [
+      { repository_name: 'Azure-Sentinel/../../contoso/private' },
+      { repository_name: '..' },
+      { repository_name: 'a/b' },
+      { repository_owner: 'Azure/..' },
+      { repository_owner: 'contoso%2fprivate' },
+    ]) {
+      assert.equal(schema.safeParse({ query, ...args }).success, false, JSON.stringify(args));
+    }
+  });
+
+  test('reject refs and branches with "..", a leading "/" or control characters', () => {
+    for (const value of ['main/../../../contoso/private', '..', '/main', 'main\n', 'ma\u0000in', 'main\\..']) {
+      assert.equal(schema.safeParse({ query, repository_ref: value }).success, false, JSON.stringify(value));
+      assert.equal(schema.safeParse({ query, repository_branch: value }).success, false, JSON.stringify(value));
+    }
+  });
+
+  test('accept ordinary names, branches, tags and SHAs', () => {
+    for (const args of [
+      { repository_owner: 'Azure', repository_name: 'Azure-Sentinel', repository_branch: 'release/2024.1' },
+      { repository_owner: 'contoso_sec', repository_name: 'sentinel.content', repository_ref: 'v1.2.3' },
+      { repository_ref: '0123456789abcdef0123456789abcdef01234567' },
+    ]) {
+      assert.equal(schema.safeParse({ query, ...args }).success, true, JSON.stringify(args));
+    }
+  });
+});
+
+describe('access policy', () => {
+  test('allows matching repositories with the entry auth', () => {
+    assert.equal(authorizeRepository(repository('Azure', 'Azure-Sentinel', 'master'), false).auth, 'anonymous');
+    assert.equal(authorizeRepository(repository('azure', 'azure-sentinel', 'master'), false).auth, 'anonymous');
+    assert.equal(authorizeRepository(repository('contoso', 'sentinel-rules', 'release/1'), false).auth, 'token');
+  });
+
+  test('refuses repositories and branches the policy does not list', () => {
+    assert.throws(() => authorizeRepository(repository('contoso', 'private', 'main'), false), /not allowed/);
+    assert.throws(() => authorizeRepository(repository('contoso', 'sentinel-rules', 'dev'), false), /not allowed/);
+  });
+
+  test('keeps "*" within one path segment', () => {
+    assert.throws(() => authorizeRepository(repository('contoso', 'sentinel-rules', 'release/a/b'), false), /not allowed/);
+    assert.throws(
+      () => authorizeRepository(repository('contoso', 'sentinel-rules', 'main', { ref: 'release/a/b' }), false),
+      /not allowed/
+    );
+  });
+
+  test('refuses path traversal in names and refs that reach it unvalidated', () => {
+    assert.throws(() => authorizeRepository(repository('Azure', 'Azure-Sentinel/../../contoso/private', 'master'), false), /Invalid repository/);
+    assert.throws(() => authorizeRepository(repository('Azure/../contoso', 'private', 'master'), false), /Invalid repository/);
+    assert.throws(
+      () => authorizeRepository(repository('Azure', 'Azure-Sentinel', 'master', { ref: 'master/../../../contoso/private/main' }), false),
+      /Invalid repository/
+    );
+    assert.throws(() => authorizeRepository(repository('Azure', 'Azure-Sentinel', '/master'), false), /Invalid repository/);
+    assert.throws(() => authorizeRepository(repository('Azure', 'Azure-Sentinel', 'master\r\n'), false), /Invalid repository/);
+  });
+
+  test('refuses a token the entry does not allow', () => {
+    assert.throws(() => authorizeRepository(repository('Azure', 'Azure-Sentinel', 'master', { auth: 'token' }), false));
+    assert.equal(authorizeRepository(repository('contoso', 'sentinel-rules', 'main', { auth: 'anonymous' }), false).auth, 'anonymous');
+  });
+
+  test('always allows the configured repository', () => {
+    assert.deepEqual(authorizeRepository(repository('contoso', 'private', 'dev'), true), { auth: 'token' });
+  });
+});
+
+describe('archive extraction', () => {
+  /**
+   * Check an extraction holds the repository entries below its single root folder
+   */
+  function assertRepository(root: string): void {
+    assert.equal(path.basename(root), 'Azure-Sentinel-main');
+    assert.equal(fs.readFileSync(path.join(root, 'Solutions/Contoso/Data/Solution_Contoso.json'), 'utf-8'), '{"Name": "Contoso"}');
+    assert.equal(fs.readFileSync(path.join(root, 'README.md'), 'utf-8'), '# Sentinel\n');
+  }
+
+  test('extracts a .tar.gz with the commit from its pax header', async () => {
+    const extracted = await extractArchive(writeArchive('.tar.gz', zlib.gzipSync(tarArchive(REPOSITORY_ENTRIES, COMMIT))));
+    assertRepository(extracted.root);
+    assert.equal(extracted.commitSha, COMMIT);
+  });
+
+  test('extracts a .tar', async () => {
+    const extracted = await extractArchive(writeArchive('.tar', tarArchive(REPOSITORY_ENTRIES)));
+    assertRepository(extracted.root);
+    assert.equal(extracted.commitSha, undefined);
+  });
+
+  test('extracts a .zip with the commit from its comment', async () => {
+    for (const stored of [false, true]) {
+      const extracted = await extractArchive(writeArchive('.zip', zipArchive(REPOSITORY_ENTRIES, { commit: COMMIT, stored })));
+      assertRepository(extracted.root);
+      assert.equal(extracted.commitSha, COMMIT);
+    }
+  });
+
+  test('extracts a zip64 .zip', async () => {
+    const extracted = await extractArchive(writeArchive('.zip', zipArchive(REPOSITORY_ENTRIES, { commit: COMMIT, zip64: true })));
+    assertRepository(extracted.root);
+    assert.equal(extracted.commitSha, COMMIT);
+  });
+
+  test('skips entries that would land outside the extraction directory', async () => {
+    const escapes = ['Azure-Sentinel-main/../../escaped.txt', '../escaped.txt', '/tmp/escaped.txt', 'C:/escaped.txt'];
+    const entries = [...REPOSITORY_ENTRIES, ...escapes.map((name) => ({ name, data: 'escaped' }))];
+
+    for (const [extension, data] of [
+      ['.tar.gz', zlib.gzipSync(tarArchive(entries))],
+      ['.zip', zipArchive(entries)],
+    ] as const) {
+      const extracted = await extractArchive(writeArchive(extension, data));
+      assertRepository(extracted.root);
+      const directory = path.dirname(extracted.root);
+      assert.deepEqual(fs.readdirSync(directory), ['Azure-Sentinel-main']);
+      assert.equal(fs.existsSync(path.join(directory, '..', 'escaped.txt')), false);
+      assert.equal(fs.existsSync(path.join(directory, '..', '..', 'escaped.txt')), false);
+    }
+  });
+
+  test('refuses entries larger than SENTINEL_ARCHIVE_MAX_ENTRY_MB', async () => {
+    const entries = [{ name: 'repo/large.bin', data: Buffer.alloc(2 * MB) }];
+    await assert.rejects(extractArchive(writeArchive('.tar.gz', zlib.gzipSync(tarArchive(entries)))), /larger than 1 MB/);
+    await assert.rejects(extractArchive(writeArchive('.zip', zipArchive(entries))), /larger than 1 MB/);
+  });
+
+  test('refuses zip entries that inflate past their declared size', async () => {
+    const entries = [{ name: 'repo/bomb.bin', data: Buffer.alloc(MB / 2) }];
+    await assert.rejects(extractArchive(writeArchive('.zip', zipArchive(entries, { declaredSize: 1024 }))), /inflates past/);
+  });
+
+  test('refuses archives past SENTINEL_ARCHIVE_MAX_TOTAL_MB or SENTINEL_ARCHIVE_MAX_ENTRIES', async () => {
+    const large = [1, 2, 3].map((i) => ({ name: `repo/part-${i}.bin`, data: Buffer.alloc(MB - 1024) }));
+    await assert.rejects(extractArchive(writeArchive('.tar.gz', zlib.gzipSync(tarArchive(large)))), /more than 2 MB/);
+    await assert.rejects(extractArchive(writeArchive('.zip', zipArchive(large))), /more than 2 MB/);
+
+    const many = Array.from({ length: 101 }, (_, i) => ({ name: `repo/file-${i}.txt`, data: 'x' }));
+    await assert.rejects(extractArchive(writeArchive('.tar.gz', zlib.gzipSync(tarArchive(many)))), /more than 100 entries/);
+    await assert.rejects(extractArchive(writeArchive('.zip', zipArchive(many))), /more than 100 entries/);
+  });
+});
+
+describe('local and archive content sources', () => {
+  /**
+   * Fixture files as archive entries below a single root folder
+   */
+  function fixtureEntries(directory = FIXTURE, prefix = 'Azure-Sentinel-master'): Entry[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+      const name = `${prefix}/${entry.name}`;
+      const full = path.join(directory, entry.name);
+      return entry.isDirectory() ? [{ name: `${name}/` }, ...fixtureEntries(full, name)] : [{ name, data: fs.readFileSync(full) }];
+    });
+  }
+
+  const sources = {
+    local: () => createContentSource({ localPath: FIXTURE }),
+    archive: () => createContentSource({ localPath: writeArchive('.tar.gz', zlib.gzipSync(tarArchive(fixtureEntries(), COMMIT))) }),
+  };
+
+  for (const [sourceType, create] of Object.entries(sources)) {
+    test(`${sourceType} source reads files, directories and the tree`, async () => {
+      const source = create();
+      assert.equal(source.getConfig().sourceType, sourceType);
+
+      const readme = await source.getFileContent('README.md');
+      assert.equal(readme, fs.readFileSync(path.join(FIXTURE, 'README.md'), 'utf-8'));
+
+      const solutions = await source.listDirectory('Solutions');
+      assert.deepEqual(solutions.map((item) => [item.path, item.type]).sort(), [
+        ['Solutions/Contoso Firewall', 'tree'],
+        ['Solutions/Contoso Identity', 'tree'],
+      ]);
+
+      const { tree } = await source.getTree();
+      assert.ok(tree.some((item) => item.path === `${RULES_DIR}/PortScan.yaml` && item.type === 'blob'));
+      assert.ok(tree.some((item) => item.path === RULES_DIR && item.type === 'tree'));
+
+      const subtree = await source.getSubtree('Solutions/Contoso Firewall/Parsers');
+      assert.deepEqual(subtree.map((item) => item.path), ['Solutions/Contoso Firewall/Parsers/ContosoFirewallEvent.yaml']);
+    });
+
+    test(`${sourceType} source refuses paths outside the repository`, async () => {
+      const source = create();
+      await assert.rejects(source.getFileContent('../outside.txt'));
+      await assert.rejects(source.getFileContent('Solutions/../../outside.txt'));
+    });
+  }
+
+  test('local source does not follow symlinks out of the checkout', async () => {
+    const checkout = path.join(workDir, 'symlinked-checkout');
+    fs.cpSync(FIXTURE, checkout, { recursive: true });
+    fs.writeFileSync(path.join(workDir, 'secret.txt'), 'secret');
+    fs.symlinkSync(path.join(workDir, 'secret.txt'), path.join(checkout, 'Solutions', 'secret.txt'));
+    fs.symlinkSync(workDir, path.join(checkout, 'Solutions', 'outside'));
+    fs.symlinkSync(path.join(checkout, 'README.md'), path.join(checkout, 'Solutions', 'readme-link.md'));
+
+    const source = createContentSource({ localPath: checkout });
+    await assert.rejects(source.getFileContent('Solutions/secret.txt'), /escapes repository root/);
+    await assert.rejects(source.getFileContent('Solutions/outside/secret.txt'), /escapes repository root/);
+    await assert.rejects(source.listDirectory('Solutions/outside'), /escapes repository root/);
+    assert.equal(await source.getFileContent('Solutions/readme-link.md'), fs.readFileSync(path.join(FIXTURE, 'README.md'), 'utf-8'));
+
+    const listed = (await source.listDirectory('Solutions')).map((item) => item.path);
+    assert.ok(listed.includes('Solutions/readme-link.md'));
+    assert.ok(!listed.includes('Solutions/secret.txt') && !listed.includes('Solutions/outside'));
+    const { tree } = await source.getTree();
+    assert.ok(!tree.some((item) => item.path.startsWith('Solutions/secret.txt') || item.path.startsWith('Solutions/outside')));
+  });
+
+  test('local source lists changes since a commit SHA only', async () => {
+    const checkout = path.join(workDir, 'git-checkout');
+    fs.cpSync(FIXTURE, checkout, { recursive: true });
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-C', checkout, '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { encoding: 'utf-8' }).trim();
+    git('init', '--quiet');
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'fixture');
+    const commit = git('rev-parse', 'HEAD');
+    fs.appendFileSync(path.join(checkout, 'README.md'), 'changed\n');
+
+    const source = createContentSource({ localPath: checkout });
+    assert.deepEqual(await source.getChangedPaths(commit), ['README.md']);
+
+    const output = path.join(workDir, 'git-output.txt');
+    for (const baseCommit of [`--output=${output}`, 'HEAD', commit.substring(0, 7)]) {
+      assert.equal(await source.getChangedPaths(baseCommit), null, baseCommit);
+    }
+    assert.equal(fs.existsSync(output), false);
+  });
+
+  test('archive source reports the commit recorded in the archive', async () => {
+    assert.equal(await sources.archive().getLatestCommitSha(), COMMIT);
+    assert.equal(await sources.local().getLatestCommitSha(), 'unknown');
+  });
+});
+
+describe('overlays', () => {
+  const list = (args: Record<string, unknown> = {}) => tools.listDetectionsTool.execute(tools.listDetectionsTool.inputSchema.parse(args));
+
+  test('higher-precedence overlays replace items with the same id and tag them with their source', async () => {
+    const { items, total } = await list({ fields: ['id', 'name', 'severity', 'source'] });
+    assert.equal(total, 2);
+    assert.deepEqual(
+      [...items].sort((a, b) => a.id!.localeCompare(b.id!)),
+      [
+        { id: PORT_SCAN_ID, name: 'Port scan (private)', severity: 'High', source: 'private' },
+        { id: '6f1a2b3c-0000-4000-8000-000000000099', name: 'Beaconing (team)', severity: 'Medium', source: 'team' },
+      ]
+    );
+  });
+
+  test('tags base items "upstream" and filters by source', async () => {
+    const hunting = await tools.listHuntingQueriesTool.execute(tools.listHuntingQueriesTool.inputSchema.parse({}));
+    assert.ok(hunting.items.length > 0);
+    assert.ok(hunting.items.every((item) => item.source === 'upstream'));
+
+    assert.deepEqual(
+      (await list({ source: 'team' })).items.map((item) => item.name),
+      ['Beaconing (team)']
+    );
+    assert.equal((await list({ source: 'upstream' })).total, 0);
+  });
+
+  test('do not extend a repository other than the configured one', async () => {
+    const copy = path.join(workDir, 'fixture-copy');
+    fs.cpSync(FIXTURE, copy, { recursive: true });
+
+    const { items } = await list({ repository_path: copy, fields: ['id', 'name', 'source'] });
+    assert.deepEqual(items, [{ id: PORT_SCAN_ID, name: 'Contoso Firewall - port scan detected', source: 'upstream' }]);
+  });
+});
+
+describe('pagination and projection', () => {
+  const items = Array.from({ length: 5 }, (_, i) => ({
+    id: `id-${i}`,
+    name: `Rule ${i}`,
+    solution: 'Contoso',
+    severity: 'High',
+    description: 'x'.repeat(300),
+    query: 'SecurityEvent',
+  }));
+
+  test('pages with a cursor that carries the filters and the offset', () => {
+    const args = { severity: 'High', limit: 2, force_refresh: true };
+    const first = paginate(items, args);
+    assert.deepEqual(first.items.map((item) => item.id), ['id-0', 'id-1']);
+    assert.equal(first.total, 5);
+    assert.ok(first.next_cursor);
+
+    // Filters in the cursor win over those passed with it; limit and cursor are not carried
+    const restored = resolveCursor({ cursor: first.next_cursor, severity: 'Low', limit: 2 });
+    assert.deepEqual(restored, { cursor: first.next_cursor, severity: 'High', limit: 2, force_refresh: true });
+
+    const second = paginate(items, restored);
+    assert.deepEqual(second.items.map((item) => item.id), ['id-2', 'id-3']);
+    const last = paginate(items, resolveCursor({ cursor: second.next_cursor, limit: 2 }));
+    assert.deepEqual(last.items.map((item) => item.id), ['id-4']);
+    assert.equal(last.next_cursor, undefined);
+  });
+
+  test('refuses a cursor it did not issue', () => {
+    assert.throws(() => resolveCursor({ cursor: 'not-a-cursor' }), /Invalid cursor/);
+    assert.throws(() => paginate(items, { cursor: Buffer.from('{"o":"1"}').toString('base64url') }), /Invalid cursor/);
+  });
+
+  test('projects items to the view, or to fields when given', () => {
+    const page = paginate(items, { limit: 1 });
+
+    assert.deepEqual(projectPage(page, { view: 'minimal' }).items, [{ id: 'id-0', name: 'Rule 0', solution: 'Contoso' }]);
+
+    const [standard] = projectPage(page, { view: 'standard' }).items;
+    assert.equal(standard.query, undefined);
+    assert.equal(standard.description, `${'x'.repeat(200)}...`);
+
+    assert.deepEqual(projectPage(page, { view: 'minimal', fields: ['severity', 'query'] }).items, [{ severity: 'High', query: 'SecurityEvent' }]);
+    assert.deepEqual(projectPage(page, { view: 'full' }).items, [items[0]]);
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Command-line interface for scripting the analyzer
+ *
+ * Every tool in the allTools registry is exposed as a subcommand, with
+ * commands and options generated from the tool name and Zod schema:
+ * - list_detections        -> detections list --tactic Persistence
+ * - validate_connector     -> connector validate file.json
+ * - get_detection_details  -> detection get <detection_id>
+ *
+ * Global options (--format, --all, --log-level, --help) go before or after
+ * the command.
+ *
+ * Exit codes: 0 on success, 1 when the tool fails, 2 on invalid usage, 3 when
+ * the answer is negative - nothing found, or a connector that fails validation.
+ */
+
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { allTools, Tool } from '../tools/index.js';
+import { toJsonSchema } from '../utils/jsonSchema.js';
+import { LOG_LEVELS, LogLevel, LogSink, withLogSink } from '../utils/logger.js';
+import { abortable } from '../utils/concurrency.js';
+import { OperationContext } from '../types/operation.js';
+import { Page } from '../utils/contentFilters.js';
+import { formatOutput, OutputFormat, OUTPUT_FORMATS } from './output.js';
+
+const BIN_NAME = 'sentinel-solutions-mcp';
+
+const EXIT_TOOL_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_NEGATIVE = 3;
+
+type OptionConfig = { type: 'string' | 'boolean'; multiple?: boolean; short?: string };
+
+// Options every command takes, before or after the command words
+const GLOBAL_OPTIONS: Record<string, OptionConfig> = {
+  format: { type: 'string' },
+  all: { type: 'boolean' },
+  'log-level': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+interface PropertySchema {
+  type?: string;
+  enum?: unknown[];
+  description?: string;
+  default?: unknown;
+}
+
+interface CliCommand {
+  tool: Tool;
+  words: string[];
+  properties: Record<string, PropertySchema>;
+  required: string[];
+}
+
+/**
+ * Thrown for invalid command lines (exit code 2)
+ */
+class UsageError extends Error {}
+
+/**
+ * Derive subcommand words from a tool name: <verb>_<noun> -> <noun> <verb>
+ * A trailing "_details" is dropped, so get_detection_details -> detection get
+ */
+function commandWords(toolName: string): string[] {
+  const [verb, ...rest] = toolName.split('_');
+  const noun = rest.length > 1 && rest[rest.length - 1] === 'details' ? rest.slice(0, -1) : rest;
+  return [noun.join('-'), verb];
+}
+
+/**
+ * Build the command table from the tool registry
+ */
+function buildCommands(): CliCommand[] {
+  return allTools.map((tool) => {
+    const schema = toJsonSchema(tool.inputSchema);
+    return {
+      tool,
+      words: commandWords(tool.name),
+      properties: (schema.properties || {}) as Record<string, PropertySchema>,
+      required: schema.required || [],
+    };
+  });
+}
+
+/**
+ * Command-line option name for a tool argument (query_contains -> query-contains)
+ */
+function optionName(property: string): string {
+  return property.replace(/_/g, '-');
+}
+
+/**
+ * Short description: the text before the first " - ", parenthesis or sentence break
+ */
+function summarize(description: string): string {
+  return description.split(/ - | \(|\. /)[0];
+}
+
+function describeProperty(property: PropertySchema): string {
+  if (property.enum) {
+    return property.enum.join('|');
+  }
+  return property.type === 'array' ? 'value,...' : property.type || 'value';
+}
+
+function globalHelp(commands: CliCommand[]): string {
+  const width = Math.max(...commands.map((c) => c.words.join(' ').length));
+  return [
+    `Usage: ${BIN_NAME} <command> [arguments] [options]`,
+    `       ${BIN_NAME} [--transport stdio|http]    (start the MCP server)`,
+    '',
+    'Commands:',
+    ...commands.map((c) => `  ${c.words.join(' ').padEnd(width)}  ${summarize(c.tool.description)}`),
+    '',
+    'Global options:',
+    `  --format ${OUTPUT_FORMATS.join('|')}  Output format (default: json)`,
+    '  --all                    Follow next_cursor and print every page',
+    '  --log-level <level>      Diagnostics written to stderr (default: warning)',
+    '  -h, --help               Show help for a command',
+  ].join('\n');
+}
+
+function commandHelp(command: CliCommand): string {
+  const positionals = command.required.map((name) => `<${name}>`).join(' ');
+  const options = Object.entries(command.properties).filter(
+    ([name]) => !command.required.includes(name)
+  );
+  const width = Math.max(
+    0,
+    ...options.map(([name, property]) => `--${optionName(name)} ${describeProperty(property)}`.length)
+  );
+
+  return [
+    `Usage: ${BIN_NAME} ${command.words.join(' ')}${positionals ? ` ${positionals}` : ''} [options]`,
+    '',
+    command.tool.description,
+    ...(command.required.length > 0
+      ? [
+          '',
+          'Arguments:',
+          ...command.required.map(
+            (name) => `  ${name}  ${command.properties[name]?.description || ''}`
+          ),
+        ]
+      : []),
+    ...(options.length > 0
+      ? [
+          '',
+          'Options:',
+          ...options.map(([name, property]) => {
+            const flag =
+              property.type === 'boolean'
+                ? `--${optionName(name)}`
+                : `--${optionName(name)} ${describeProperty(property)}`;
+            return `  ${flag.padEnd(width)}  ${property.description || ''}`;
+          }),
+        ]
+      : []),
+  ].join('\n');
+}
+
+/**
+ * Resolve a *_json argument: "-" reads stdin, an existing file path is read,
+ * anything else is passed through as inline JSON
+ */
+function readJsonArgument(value: string): string {
+  if (value === '-') {
+    return fs.readFileSync(0, 'utf-8');
+  }
+  if (!value.trim().startsWith('{') && fs.existsSync(value)) {
+    return fs.readFileSync(value, 'utf-8');
+  }
+  return value;
+}
+
+/**
+ * Convert a raw option value to the type the schema expects
+ */
+function convertValue(
+  name: string,
+  property: PropertySchema,
+  value: string | boolean | Array<string | boolean>
+): unknown {
+  if (property.type === 'array') {
+    const values = Array.isArray(value) ? value : [String(value)];
+    return values.flatMap((v) => String(v).split(',')).map((v) => v.trim()).filter(Boolean);
+  }
+  if (property.type === 'number' || property.type === 'integer') {
+    const number = Number(value);
+    if (Number.isNaN(number)) {
+      throw new UsageError(`--${optionName(name)} expects a number, got "${value}"`);
+    }
+    return number;
+  }
+  if (typeof value === 'string' && name.endsWith('_json')) {
+    return readJsonArgument(value);
+  }
+  return value;
+}
+
+/**
+ * Parse the arguments following the command words into tool arguments
+ */
+function parseToolArgs(command: CliCommand, argv: string[]) {
+  const options: Record<string, OptionConfig> = { ...GLOBAL_OPTIONS };
+  for (const [name, property] of Object.entries(command.properties)) {
+    options[optionName(name)] = {
+      type: property.type === 'boolean' ? 'boolean' : 'string',
+      ...(property.type === 'array' && { multiple: true }),
+    };
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (positionals.length > command.required.length) {
+    throw new UsageError(`Unexpected argument: ${positionals[command.required.length]}`);
+  }
+
+  const toolArgs: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(command.properties)) {
+    const value = values[optionName(name)];
+    if (value !== undefined) {
+      toolArgs[name] = convertValue(name, property, value);
+    }
+  }
+  positionals.forEach((value, i) => {
+    const name = command.required[i];
+    toolArgs[name] = convertValue(name, command.properties[name] || {}, value);
+  });
+
+  const format = (values.format as string | undefined) || 'json';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const logLevel = (values['log-level'] as string | undefined) || 'warning';
+  if (!LOG_LEVELS.includes(logLevel as LogLevel)) {
+    throw new UsageError(`--log-level must be one of: ${LOG_LEVELS.join(', ')}`);
+  }
+
+  return {
+    toolArgs,
+    format: format as OutputFormat,
+    logLevel: logLevel as LogLevel,
+    all: values.all === true,
+    help: values.help === true,
+  };
+}
+
+/**
+ * Split the global options leading a command line from the command and the rest
+ */
+function splitGlobalOptions(argv: string[]): { globals: string[]; rest: string[] } {
+  let i = 0;
+  while (i < argv.length) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s);
+    const option = Object.entries(GLOBAL_OPTIONS).find(
+      ([name, config]) => flag === `--${name}` || (config.short && flag === `-${config.short}`)
+    );
+    if (!option) {
+      break;
+    }
+    i += option[1].type === 'string' && inlineValue === undefined ? 2 : 1;
+  }
+  return { globals: argv.slice(0, i), rest: argv.slice(i) };
+}
+
+/**
+ * Whether a command line runs a CLI command rather than starting the server:
+ * it names a command or help, possibly after global options
+ */
+export function isCliCommandLine(argv: string[]): boolean {
+  const { globals, rest } = splitGlobalOptions(argv);
+  return globals.length > 0 || (rest.length > 0 && !rest[0].startsWith('-'));
+}
+
+/**
+ * Write log messages at or above minLevel to stderr
+ */
+function stderrSink(minLevel: LogLevel): LogSink {
+  return (level, logger, message) => {
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel)) {
+      console.error(`[${level}] ${logger}: ${message}`);
+    }
+  };
+}
+
+/**
+ * Whether a tool result is one page of a paginated list
+ */
+function isPage(result: unknown): result is Page<unknown> {
+  return typeof result === 'object' && result !== null && Array.isArray((result as Page<unknown>).items);
+}
+
+/**
+ * Whether a result answers "no": nothing found, or a connector that fails validation
+ */
+function isNegative(result: unknown): boolean {
+  return result === null || (typeof result === 'object' && 'isValid' in result && result.isValid === false);
+}
+
+/**
+ * Execute a tool, following next_cursor until the last page when all is set
+ */
+async function executeTool(tool: Tool, args: Record<string, unknown>, all: boolean, context: OperationContext): Promise<unknown> {
+  const result = await tool.execute(tool.inputSchema.parse(args), context);
+
+  if (all && isPage(result)) {
+    const items = [...result.items];
+    let page = result;
+    while (page.next_cursor) {
+      const next = await tool.execute(tool.inputSchema.parse({ ...args, cursor: page.next_cursor }), context);
+      if (!isPage(next)) {
+        throw new Error(`${tool.name} returned a page without items`);
+      }
+      items.push(...next.items);
+      page = next;
+    }
+    return { items, total: page.total };
+  }
+
+  return result;
+}
+
+/**
+ * Run a CLI command and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const commands = buildCommands();
+  const { globals, rest: commandLine } = splitGlobalOptions(argv);
+
+  if (commandLine.length === 0 || commandLine[0] === 'help') {
+    console.log(globalHelp(commands));
+    return 0;
+  }
+
+  // Accept "detections list" as well as the raw tool name "list_detections"
+  const command =
+    commands.find((c) => c.words[0] === commandLine[0] && c.words[1] === commandLine[1]) ||
+    commands.find((c) => c.tool.name === commandLine[0]);
+  if (!command) {
+    console.error(`Unknown command: ${commandLine.slice(0, 2).join(' ')}`);
+    console.error(`Run "${BIN_NAME} help" to list commands.`);
+    return EXIT_USAGE;
+  }
+  const rest = commandLine.slice(command.tool.name === commandLine[0] ? 1 : 2);
+
+  let options;
+  try {
+    options = parseToolArgs(command, [...globals, ...rest]);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(`Run "${BIN_NAME} ${command.words.join(' ')} --help" for usage.`);
+    return EXIT_USAGE;
+  }
+
+  if (options.help) {
+    console.log(commandHelp(command));
+    return 0;
+  }
+
+  const missing = command.required.filter((name) => options.toolArgs[name] === undefined);
+  if (missing.length > 0) {
+    console.error(`Error: missing required argument: ${missing.join(', ')}`);
+    console.error(`Run "${BIN_NAME} ${command.words.join(' ')} --help" for usage.`);
+    return EXIT_USAGE;
+  }
+
+  const validated = command.tool.inputSchema.safeParse(options.toolArgs);
+  if (!validated.success) {
+    validated.error.issues.forEach((issue) => {
+      const name = issue.path.map(String).join('.');
+      console.error(`Error: ${name ? `--${optionName(name)}: ` : ''}${issue.message}`);
+    });
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { result } = await withLogSink(stderrSink(options.logLevel), () =>
+      abortable({}, (context) => executeTool(command.tool, options.toolArgs, options.all, context))
+    );
+    process.stdout.write(formatOutput(result, options.format) + '\n');
+    return isNegative(result) ? EXIT_NEGATIVE : 0;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_TOOL_ERROR;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Output formatting for the command-line interface
+ * Tool results are printed as JSON, CSV or an aligned text table.
+ */
+
+import { recordsToCsv } from '../generators/csvGenerator.js';
+
+export type OutputFormat = 'json' | 'csv' | 'table';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'csv', 'table'];
+
+const TABLE_CELL_WIDTH = 60;
+
+/**
+ * Pick the rows to print from a tool result
+ * Pages print their items; other objects print their first array of objects
+ * (e.g. analysis mappings); anything else prints as a single row.
+ */
+function toRows(result: unknown): Record<string, unknown>[] {
+  if (Array.isArray(result)) {
+    return result.map((item) => (isRecord(item) ? item : { value: item }));
+  }
+
+  if (!isRecord(result)) {
+    return [{ value: result }];
+  }
+
+  if (Array.isArray(result.items)) {
+    return toRows(result.items);
+  }
+
+  const nested = Object.values(result).find(
+    (value) => Array.isArray(value) && value.length > 0 && value.every(isRecord)
+  );
+  return nested ? (nested as Record<string, unknown>[]) : [result];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect column names in first-seen order across all rows
+ */
+function toColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return Array.from(columns);
+}
+
+/**
+ * Render a single cell value as text
+ * Lists of primitives are joined with "; ", nested objects are JSON encoded
+ */
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value) && value.every((v) => !isRecord(v) && !Array.isArray(v))) {
+    return value.join('; ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatCsv(rows: Record<string, unknown>[]): string {
+  const columns = toColumns(rows);
+  return recordsToCsv(
+    columns,
+    rows.map((row) => Object.fromEntries(columns.map((column) => [column, toCell(row[column])])))
+  );
+}
+
+function formatTable(rows: Record<string, unknown>[]): string {
+  const columns = toColumns(rows);
+  const cells = rows.map((row) =>
+    columns.map((column) => {
+      const text = toCell(row[column]).replace(/\s+/g, ' ');
+      return text.length > TABLE_CELL_WIDTH ? text.substring(0, TABLE_CELL_WIDTH - 3) + '...' : text;
+    })
+  );
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => row[i].length))
+  );
+
+  const renderRow = (values: string[]) =>
+    values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    renderRow(columns),
+    renderRow(widths.map((width) => '-'.repeat(width))),
+    ...cells.map(renderRow),
+  ].join('\n');
+}
+
+/**
+ * Format a tool result for printing
+ */
+export function formatOutput(result: unknown, format: OutputFormat): string {
+  switch (format) {
+    case 'csv':
+      return formatCsv(toRows(result));
+    case 'table':
+      return formatTable(toRows(result));
+    default:
+      return JSON.stringify(result, null, 2);
+  }
+}
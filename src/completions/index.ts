@@ -0,0 +1,191 @@
+/**
+ * MCP argument completion (completion/complete) backed by the pre-built index
+ *
+ * Completes the exact names that tools and prompts require:
+ * - solution names, connector IDs and table names
+ * - MITRE ATT&CK tactics
+ * - watchlist aliases
+ *
+ * Prompt and resource template arguments are mapped explicitly. Any other
+ * reference (e.g. a tool name) is completed by argument name, so clients can
+ * complete tool arguments such as get_connector_tables' connector_id too.
+ */
+
+import { AnalysisResult } from '../types/index.js';
+import { loadPreBuiltIndex } from '../utils/indexLoader.js';
+
+const MAX_VALUES = 100;
+
+type CompletionKind = 'solution' | 'connector' | 'table' | 'tableList' | 'tactic' | 'watchlist';
+
+export type CompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export type CompletionResult = {
+  completion: {
+    values: string[];
+    total: number;
+    hasMore: boolean;
+  };
+};
+
+/**
+ * Completion kinds for resource template variables
+ */
+const RESOURCE_ARGUMENTS: Record<string, Record<string, CompletionKind>> = {
+  'sentinel://solution/{name}': { name: 'solution' },
+  'sentinel://table/{name}': { name: 'table' },
+  'sentinel://connector/{id}': { id: 'connector' },
+};
+
+/**
+ * Completion kinds by argument name (prompt and tool arguments)
+ */
+const NAMED_ARGUMENTS: Record<string, CompletionKind> = {
+  solution: 'solution',
+  solution_name: 'solution',
+  connector_id: 'connector',
+  table: 'table',
+  table_name: 'table',
+  tables: 'tableList',
+  tactic: 'tactic',
+  watchlist_alias: 'watchlist',
+  alias: 'watchlist',
+};
+
+// Candidates by the index they were collected from
+const candidateCache = new WeakMap<AnalysisResult, Map<CompletionKind, string[]>>();
+
+/**
+ * Collect sorted unique candidate values for every completion kind
+ */
+function buildCandidates(index: AnalysisResult): Map<CompletionKind, string[]> {
+  const unique = (values: Array<string | undefined>) =>
+    Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+
+  const content = [
+    ...(index.detections || []),
+    ...(index.huntingQueries || []),
+    ...(index.workbooks || []),
+    ...(index.playbooks || []),
+    ...(index.parsers || []),
+  ];
+
+  const tables = unique(index.mappings.map((m) => m.tableName));
+
+  return new Map<CompletionKind, string[]>([
+    ['solution', unique([...index.mappings.map((m) => m.solution), ...content.map((c) => c.solution)])],
+    ['connector', unique(index.mappings.map((m) => m.connectorId))],
+    ['table', tables],
+    ['tableList', tables],
+    [
+      'tactic',
+      unique([
+        ...(index.detections || []).flatMap((d) => d.tactics || []),
+        ...(index.huntingQueries || []).flatMap((q) => q.tactics || []),
+      ]),
+    ],
+    ['watchlist', unique((index.watchlists || []).map((w) => w.alias))],
+  ]);
+}
+
+/**
+ * Collect candidates once per index - again only after it is refreshed
+ */
+function getCandidates(kind: CompletionKind): string[] {
+  const index = loadPreBuiltIndex();
+  if (!index) {
+    return [];
+  }
+  let candidates = candidateCache.get(index);
+  if (!candidates) {
+    candidates = buildCandidates(index);
+    candidateCache.set(index, candidates);
+  }
+  return candidates.get(kind) || [];
+}
+
+/**
+ * True if every character of needle appears in haystack in order
+ */
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0;
+  for (const char of haystack) {
+    if (char === needle[i]) {
+      i++;
+    }
+  }
+  return i === needle.length;
+}
+
+/**
+ * Rank candidates: prefix matches, then substring matches, then fuzzy
+ * (subsequence) matches. Matching ignores case, spaces, hyphens and underscores.
+ */
+function rankMatches(candidates: string[], value: string): string[] {
+  const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]/g, '');
+  const query = normalize(value);
+  if (!query) {
+    return candidates;
+  }
+
+  const prefix: string[] = [];
+  const substring: string[] = [];
+  const fuzzy: string[] = [];
+
+  candidates.forEach((candidate) => {
+    const normalized = normalize(candidate);
+    if (normalized.startsWith(query)) {
+      prefix.push(candidate);
+    } else if (normalized.includes(query)) {
+      substring.push(candidate);
+    } else if (isSubsequence(query, normalized)) {
+      fuzzy.push(candidate);
+    }
+  });
+
+  return [...prefix, ...substring, ...fuzzy];
+}
+
+/**
+ * Resolve which kind of value an argument takes
+ */
+function resolveKind(ref: CompletionRef, argumentName: string): CompletionKind | undefined {
+  if (ref.type === 'ref/resource' && RESOURCE_ARGUMENTS[ref.uri]) {
+    return RESOURCE_ARGUMENTS[ref.uri][argumentName];
+  }
+  return NAMED_ARGUMENTS[argumentName];
+}
+
+/**
+ * Complete an argument value for a prompt, resource template or tool
+ */
+export function complete(ref: CompletionRef, argument: { name: string; value: string }): CompletionResult {
+  const kind = resolveKind(ref, argument.name);
+  if (!kind) {
+    return { completion: { values: [], total: 0, hasMore: false } };
+  }
+
+  // Comma-separated lists complete their last entry and keep the rest
+  let head = '';
+  let value = argument.value;
+  if (kind === 'tableList') {
+    const lastComma = value.lastIndexOf(',');
+    head = value.substring(0, lastComma + 1);
+    value = value.substring(lastComma + 1).trim();
+    if (head) {
+      head += ' ';
+    }
+  }
+
+  const matches = rankMatches(getCandidates(kind), value);
+
+  return {
+    completion: {
+      values: matches.slice(0, MAX_VALUES).map((match) => head + match),
+      total: matches.length,
+      hasMore: matches.length > MAX_VALUES,
+    },
+  };
+}
@@ -3,7 +3,7 @@
  * Generates CSV reports matching the Python version's format
  */
 
-import { createObjectCsvWriter } from 'csv-writer';
+import { createObjectCsvStringifier, createObjectCsvWriter } from 'csv-writer';
 import { TableMapping, AnalysisIssue } from '../types/index.js';
 
 export async function generateMappingsCsv(
@@ -81,6 +81,22 @@ export async function generateIssuesCsv(
   await csvWriter.writeRecords(records);
 }
 
+/**
+ * Convert records to CSV text with the columns, in order, as the header row
+ */
+export function recordsToCsv(columns: string[], records: Record<string, string>[]): string {
+  if (columns.length === 0) {
+    return '';
+  }
+
+  const stringifier = createObjectCsvStringifier({
+    header: columns.map((column) => ({ id: column, title: column })),
+  });
+
+  // Without the newline after the last record, matching the other formats
+  return (stringifier.getHeaderString() + stringifier.stringifyRecords(records)).replace(/\n$/, '');
+}
+
 /**
  * Convert mappings to JSON format
  */
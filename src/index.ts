@@ -1,97 +1,81 @@
 /**
  * Microsoft Sentinel Solutions Analyzer MCP Server
  * Analyzes Microsoft Sentinel solutions and maps data connectors to Log Analytics tables
+ *
+ * Transport modes:
+ * - stdio (default): one client per process
+ * - http: Streamable HTTP, one shared instance serving many sessions
+ *
+ * Given a command (e.g. "detections list --tactic Persistence") it runs as a
+ * CLI instead - see cli/index.ts.
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { parseArgs } from 'util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 import { allTools } from './tools/index.js';
+import { createServer } from './server.js';
+import { parsePort, startHttpServer } from './transports/httpTransport.js';
+import { isCliCommandLine, runCli } from './cli/index.js';
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'sentinel-analyzer',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// Handle list_tools request
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: allTools.map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema,
-    })),
-  };
-});
+const argv = process.argv.slice(2);
 
-// Handle call_tool request
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// Exit code for invalid options, as in CLI mode
+const EXIT_USAGE = 2;
 
-  const tool = allTools.find((t) => t.name === name);
-
-  if (!tool) {
-    throw new Error(`Unknown tool: ${name}`);
-  }
+// Start server
+async function main() {
+  // Parse server options (environment variables provide the defaults)
+  const { values: options } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
 
-  try {
-    // Validate arguments
-    const validatedArgs = tool.inputSchema.parse(args || {});
+  const transportMode = options.transport || process.env.MCP_TRANSPORT || 'stdio';
 
-    // Execute tool
-    const result = await tool.execute(validatedArgs as any);
+  if (transportMode === 'http') {
+    const portValue = options.port ?? process.env.MCP_HTTP_PORT;
+    const port = portValue === undefined ? undefined : parsePort(portValue);
+    if (port === null) {
+      console.error(`Invalid port "${portValue}": expected a number from 1 to 65535`);
+      process.exit(EXIT_USAGE);
+    }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    const shutdown = await startHttpServer({
+      ...(options.host && { host: options.host }),
+      ...(port !== undefined && { port }),
+    });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(
-            {
-              error: errorMessage,
-              tool: name,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-      isError: true,
-    };
+    // Ctrl+C, and the stop signal from service managers and containers
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, async () => {
+        await shutdown();
+        process.exit(0);
+      });
+    }
+  } else if (transportMode === 'stdio') {
+    const server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+  } else {
+    throw new Error(`Unknown transport: ${transportMode} (expected "stdio" or "http")`);
   }
-});
-
-// Start server
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
 
   console.error('Microsoft Sentinel Solutions Analyzer MCP Server started');
   console.error('Available tools:', allTools.map((t) => t.name).join(', '));
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+if (isCliCommandLine(argv)) {
+  // CLI mode: set the exit code and let pending output flush
+  runCli(argv).then((code) => {
+    process.exitCode = code;
+  });
+} else {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -2,19 +2,57 @@
  * Content Scanner for Sentinel detections, workbooks, hunting queries, etc.
  */
 
-import { GitHubClient } from '../repository/githubClient.js';
+import { ContentSource, RepositoryTree } from '../types/repository.js';
+import { OperationContext } from '../types/operation.js';
+import { createLogger } from '../utils/logger.js';
+import { prefetchFiles } from './prefetch.js';
 import * as yaml from 'js-yaml';
 import { Detection, Workbook, HuntingQuery, Playbook, Parser, Watchlist, Notebook, ExplorationQuery, Function as SentinelFunction, ASIMContent, SummaryRule, Tool, Tutorial, Dashboard, DataConnector } from '../types/content.js';
 
+const log = createLogger('contentScanner');
+
+/**
+ * Whether a path is one of the scope paths or lies below one
+ */
+export function isInScope(itemPath: string, scope: ReadonlySet<string>): boolean {
+  for (let end = itemPath.indexOf('/'); end !== -1; end = itemPath.indexOf('/', end + 1)) {
+    if (scope.has(itemPath.substring(0, end))) {
+      return true;
+    }
+  }
+  return scope.has(itemPath);
+}
+
 export class ContentScanner {
-  constructor(private github: GitHubClient) {}
+  /**
+   * @param scope Paths to scan (files or directories) - the whole repository
+   * when omitted. Used by incremental index builds to re-read only changed content.
+   */
+  constructor(
+    private github: ContentSource,
+    private context: OperationContext = {},
+    private scope?: ReadonlySet<string>
+  ) {}
+
+  /**
+   * Repository tree, limited to the items at or below a scope path
+   */
+  private async getTree(): Promise<RepositoryTree> {
+    const tree = await this.github.getTree(undefined, this.context.signal);
+    if (!this.scope) {
+      return tree;
+    }
+
+    const scope = this.scope;
+    return { ...tree, tree: tree.tree.filter((item) => isInScope(item.path, scope)) };
+  }
 
   /**
    * List all detections (analytics rules)
    */
   async listDetections(): Promise<Detection[]> {
-    console.error('Fetching detection rules from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching detection rules from repository...');
+    const tree = await this.getTree();
 
     // Find all YAML files in Detections and Solutions directories
     const detectionFiles = tree.tree.filter(
@@ -24,14 +62,17 @@ export class ContentScanner {
           item.path.match(/Solutions\/.*\/Analytic Rules\/.*\.yaml$/i))
     );
 
-    console.error(`Found ${detectionFiles.length} detection files`);
+    log.debug(`Found ${detectionFiles.length} detection files`);
 
     const detections: Detection[] = [];
     let processed = 0;
 
+    const contents = prefetchFiles(this.github, detectionFiles.map((f) => f.path), this.context.signal);
     for (const file of detectionFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = yaml.load(content) as any;
 
         if (data && data.id) {
@@ -56,17 +97,14 @@ export class ContentScanner {
             solution: this.extractSolutionName(file.path),
           });
         }
-
-        processed++;
-        if (processed % 50 === 0) {
-          console.error(`Processed ${processed}/${detectionFiles.length} detections...`);
-        }
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, detectionFiles.length, 'detections');
     }
 
-    console.error(`Successfully loaded ${detections.length} detections`);
+    log.info(`Successfully loaded ${detections.length} detections`);
     return detections;
   }
 
@@ -74,8 +112,8 @@ export class ContentScanner {
    * List all workbooks
    */
   async listWorkbooks(): Promise<Workbook[]> {
-    console.error('Fetching workbooks from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching workbooks from repository...');
+    const tree = await this.getTree();
 
     // Find all JSON workbook files
     const workbookFiles = tree.tree.filter(
@@ -85,14 +123,17 @@ export class ContentScanner {
           item.path.match(/Solutions\/.*\/Workbooks\/.*\.json$/i))
     );
 
-    console.error(`Found ${workbookFiles.length} workbook files`);
+    log.debug(`Found ${workbookFiles.length} workbook files`);
 
     const workbooks: Workbook[] = [];
     let processed = 0;
 
+    const contents = prefetchFiles(this.github, workbookFiles.map((f) => f.path), this.context.signal);
     for (const file of workbookFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = JSON.parse(content);
 
         // Azure Workbook template structure
@@ -112,17 +153,14 @@ export class ContentScanner {
             solution: this.extractSolutionName(file.path),
           });
         }
-
-        processed++;
-        if (processed % 20 === 0) {
-          console.error(`Processed ${processed}/${workbookFiles.length} workbooks...`);
-        }
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, workbookFiles.length, 'workbooks');
     }
 
-    console.error(`Successfully loaded ${workbooks.length} workbooks`);
+    log.info(`Successfully loaded ${workbooks.length} workbooks`);
     return workbooks;
   }
 
@@ -130,8 +168,8 @@ export class ContentScanner {
    * List all hunting queries
    */
   async listHuntingQueries(): Promise<HuntingQuery[]> {
-    console.error('Fetching hunting queries from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching hunting queries from repository...');
+    const tree = await this.getTree();
 
     // Find all YAML hunting query files
     const huntingFiles = tree.tree.filter(
@@ -141,14 +179,17 @@ export class ContentScanner {
           item.path.match(/Solutions\/.*\/Hunting Queries\/.*\.yaml$/i))
     );
 
-    console.error(`Found ${huntingFiles.length} hunting query files`);
+    log.debug(`Found ${huntingFiles.length} hunting query files`);
 
     const queries: HuntingQuery[] = [];
     let processed = 0;
 
+    const contents = prefetchFiles(this.github, huntingFiles.map((f) => f.path), this.context.signal);
     for (const file of huntingFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = yaml.load(content) as any;
 
         if (data && data.id) {
@@ -164,17 +205,14 @@ export class ContentScanner {
             solution: this.extractSolutionName(file.path),
           });
         }
-
-        processed++;
-        if (processed % 50 === 0) {
-          console.error(`Processed ${processed}/${huntingFiles.length} hunting queries...`);
-        }
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, huntingFiles.length, 'hunting queries');
     }
 
-    console.error(`Successfully loaded ${queries.length} hunting queries`);
+    log.info(`Successfully loaded ${queries.length} hunting queries`);
     return queries;
   }
 
@@ -182,8 +220,8 @@ export class ContentScanner {
    * List all playbooks
    */
   async listPlaybooks(): Promise<Playbook[]> {
-    console.error('Fetching playbooks from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching playbooks from repository...');
+    const tree = await this.getTree();
 
     // Find all JSON playbook files (Logic Apps) from multiple locations:
     // 1. Root-level: Playbooks/PlaybookName/azuredeploy.json
@@ -212,13 +250,17 @@ export class ContentScanner {
         )
     );
 
-    console.error(`Found ${playbookFiles.length} playbook files`);
+    log.debug(`Found ${playbookFiles.length} playbook files`);
 
     const playbooks: Playbook[] = [];
+    let processed = 0;
 
+    const contents = prefetchFiles(this.github, playbookFiles.map((f) => f.path), this.context.signal);
     for (const file of playbookFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = JSON.parse(content);
 
         // Extract playbook name with better handling of various directory structures
@@ -256,11 +298,13 @@ export class ContentScanner {
           solution: this.extractSolutionName(file.path),
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, playbookFiles.length, 'playbooks');
     }
 
-    console.error(`Successfully loaded ${playbooks.length} playbooks`);
+    log.info(`Successfully loaded ${playbooks.length} playbooks`);
     return playbooks;
   }
 
@@ -268,8 +312,8 @@ export class ContentScanner {
    * List all parsers
    */
   async listParsers(): Promise<Parser[]> {
-    console.error('Fetching parsers from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching parsers from repository...');
+    const tree = await this.getTree();
 
     // Find all parser files
     const parserFiles = tree.tree.filter(
@@ -280,13 +324,17 @@ export class ContentScanner {
           item.path.match(/Solutions\/.*\/Parsers\/.*\.(txt|yaml)$/i))
     );
 
-    console.error(`Found ${parserFiles.length} parser files`);
+    log.debug(`Found ${parserFiles.length} parser files`);
 
     const parsers: Parser[] = [];
+    let processed = 0;
 
+    const contents = prefetchFiles(this.github, parserFiles.map((f) => f.path), this.context.signal);
     for (const file of parserFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
 
         parsers.push({
           id: file.path,
@@ -296,11 +344,13 @@ export class ContentScanner {
           solution: this.extractSolutionName(file.path),
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, parserFiles.length, 'parsers');
     }
 
-    console.error(`Successfully loaded ${parsers.length} parsers`);
+    log.info(`Successfully loaded ${parsers.length} parsers`);
     return parsers;
   }
 
@@ -308,8 +358,8 @@ export class ContentScanner {
    * List all watchlists
    */
   async listWatchlists(): Promise<Watchlist[]> {
-    console.error('Fetching watchlists from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching watchlists from repository...');
+    const tree = await this.getTree();
 
     const watchlistFiles = tree.tree.filter(
       (item) =>
@@ -318,12 +368,16 @@ export class ContentScanner {
           item.path.match(/^Solutions\/.*\/Watchlists\/.*\.json$/i))
     );
 
-    console.error(`Found ${watchlistFiles.length} watchlist files`);
+    log.debug(`Found ${watchlistFiles.length} watchlist files`);
 
     const watchlists: Watchlist[] = [];
+    let processed = 0;
+    const contents = prefetchFiles(this.github, watchlistFiles.map((f) => f.path), this.context.signal);
     for (const file of watchlistFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = JSON.parse(content);
 
         watchlists.push({
@@ -335,11 +389,13 @@ export class ContentScanner {
           solution: this.extractSolutionName(file.path),
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, watchlistFiles.length, 'watchlists');
     }
 
-    console.error(`Successfully loaded ${watchlists.length} watchlists`);
+    log.info(`Successfully loaded ${watchlists.length} watchlists`);
     return watchlists;
   }
 
@@ -347,8 +403,8 @@ export class ContentScanner {
    * List all notebooks
    */
   async listNotebooks(): Promise<Notebook[]> {
-    console.error('Fetching notebooks from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching notebooks from repository...');
+    const tree = await this.getTree();
 
     const notebookFiles = tree.tree.filter(
       (item) =>
@@ -357,12 +413,16 @@ export class ContentScanner {
           item.path.match(/^Solutions\/.*\/Notebooks\/.*\.ipynb$/i))
     );
 
-    console.error(`Found ${notebookFiles.length} notebook files`);
+    log.debug(`Found ${notebookFiles.length} notebook files`);
 
     const notebooks: Notebook[] = [];
+    let processed = 0;
+    const contents = prefetchFiles(this.github, notebookFiles.map((f) => f.path), this.context.signal);
     for (const file of notebookFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = JSON.parse(content);
 
         notebooks.push({
@@ -374,11 +434,13 @@ export class ContentScanner {
           solution: this.extractSolutionName(file.path),
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, notebookFiles.length, 'notebooks');
     }
 
-    console.error(`Successfully loaded ${notebooks.length} notebooks`);
+    log.info(`Successfully loaded ${notebooks.length} notebooks`);
     return notebooks;
   }
 
@@ -386,8 +448,8 @@ export class ContentScanner {
    * List all exploration queries
    */
   async listExplorationQueries(): Promise<ExplorationQuery[]> {
-    console.error('Fetching exploration queries from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching exploration queries from repository...');
+    const tree = await this.getTree();
 
     const queryFiles = tree.tree.filter(
       (item) =>
@@ -396,12 +458,16 @@ export class ContentScanner {
           item.path.match(/^Solutions\/.*\/Exploration Queries\/.*\.yaml$/i))
     );
 
-    console.error(`Found ${queryFiles.length} exploration query files`);
+    log.debug(`Found ${queryFiles.length} exploration query files`);
 
     const queries: ExplorationQuery[] = [];
+    let processed = 0;
+    const contents = prefetchFiles(this.github, queryFiles.map((f) => f.path), this.context.signal);
     for (const file of queryFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = yaml.load(content) as any;
 
         if (data && data.id) {
@@ -415,11 +481,13 @@ export class ContentScanner {
           });
         }
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, queryFiles.length, 'exploration queries');
     }
 
-    console.error(`Successfully loaded ${queries.length} exploration queries`);
+    log.info(`Successfully loaded ${queries.length} exploration queries`);
     return queries;
   }
 
@@ -427,8 +495,8 @@ export class ContentScanner {
    * List all functions
    */
   async listFunctions(): Promise<SentinelFunction[]> {
-    console.error('Fetching functions from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching functions from repository...');
+    const tree = await this.getTree();
 
     const functionFiles = tree.tree.filter(
       (item) =>
@@ -437,12 +505,16 @@ export class ContentScanner {
           item.path.match(/^Solutions\/.*\/Functions\/.*\.(txt|yaml|kql)$/i))
     );
 
-    console.error(`Found ${functionFiles.length} function files`);
+    log.debug(`Found ${functionFiles.length} function files`);
 
     const functions: SentinelFunction[] = [];
+    let processed = 0;
+    const contents = prefetchFiles(this.github, functionFiles.map((f) => f.path), this.context.signal);
     for (const file of functionFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
 
         functions.push({
           id: file.path,
@@ -452,11 +524,13 @@ export class ContentScanner {
           solution: this.extractSolutionName(file.path),
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, functionFiles.length, 'functions');
     }
 
-    console.error(`Successfully loaded ${functions.length} functions`);
+    log.info(`Successfully loaded ${functions.length} functions`);
     return functions;
   }
 
@@ -464,8 +538,8 @@ export class ContentScanner {
    * List all ASIM content
    */
   async listASIMContent(): Promise<ASIMContent[]> {
-    console.error('Fetching ASIM content from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching ASIM content from repository...');
+    const tree = await this.getTree();
 
     const asimFiles = tree.tree.filter(
       (item) =>
@@ -473,10 +547,13 @@ export class ContentScanner {
         item.path.match(/^ASIM\/.*\.(yaml|md|txt)$/i)
     );
 
-    console.error(`Found ${asimFiles.length} ASIM files`);
+    log.debug(`Found ${asimFiles.length} ASIM files`);
 
     const asimContent: ASIMContent[] = [];
+    let processed = 0;
     for (const file of asimFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
         let type: 'Parser' | 'Schema' | 'Documentation' = 'Documentation';
         if (file.path.includes('Parser')) {
@@ -492,11 +569,13 @@ export class ContentScanner {
           filePath: file.path,
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, asimFiles.length, 'ASIM files');
     }
 
-    console.error(`Successfully loaded ${asimContent.length} ASIM files`);
+    log.info(`Successfully loaded ${asimContent.length} ASIM files`);
     return asimContent;
   }
 
@@ -504,8 +583,8 @@ export class ContentScanner {
    * List all summary rules
    */
   async listSummaryRules(): Promise<SummaryRule[]> {
-    console.error('Fetching summary rules from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching summary rules from repository...');
+    const tree = await this.getTree();
 
     const ruleFiles = tree.tree.filter(
       (item) =>
@@ -514,12 +593,16 @@ export class ContentScanner {
           item.path.match(/^Solutions\/.*\/Summary rules\/.*\.yaml$/i))
     );
 
-    console.error(`Found ${ruleFiles.length} summary rule files`);
+    log.debug(`Found ${ruleFiles.length} summary rule files`);
 
     const rules: SummaryRule[] = [];
+    let processed = 0;
+    const contents = prefetchFiles(this.github, ruleFiles.map((f) => f.path), this.context.signal);
     for (const file of ruleFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = yaml.load(content) as any;
 
         if (data) {
@@ -533,14 +616,33 @@ export class ContentScanner {
           });
         }
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, ruleFiles.length, 'summary rules');
     }
 
-    console.error(`Successfully loaded ${rules.length} summary rules`);
+    log.info(`Successfully loaded ${rules.length} summary rules`);
     return rules;
   }
 
+  /**
+   * Report scan progress - as an MCP progress notification when the client
+   * requested one, otherwise as a log message
+   */
+  private reportProgress(processed: number, total: number, label: string): void {
+    if (processed % 50 !== 0 && processed !== total) {
+      return;
+    }
+
+    const message = `Processed ${processed}/${total} ${label}...`;
+    if (this.context.onProgress) {
+      this.context.onProgress(processed, total, message);
+    } else {
+      log.info(message);
+    }
+  }
+
   /**
    * Extract solution name from file path
    */
@@ -581,8 +683,8 @@ export class ContentScanner {
    * List all tools
    */
   async listTools(): Promise<Tool[]> {
-    console.error('Fetching tools from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching tools from repository...');
+    const tree = await this.getTree();
 
     const toolDirs = tree.tree.filter(
       (item) =>
@@ -590,22 +692,35 @@ export class ContentScanner {
         item.path.match(/^Tools\/[^/]+$/)
     );
 
-    console.error(`Found ${toolDirs.length} tool directories`);
+    log.debug(`Found ${toolDirs.length} tool directories`);
+
+    // Look for README or description files
+    const readmeFiles = new Map(
+      toolDirs.map((dir) => [
+        dir.path,
+        tree.tree
+          .filter((item) => item.path.startsWith(dir.path + '/'))
+          .find(f => f.path.toLowerCase().includes('readme')),
+      ])
+    );
+    const contents = prefetchFiles(
+      this.github,
+      Array.from(readmeFiles.values()).flatMap((f) => (f ? [f.path] : [])),
+      this.context.signal
+    );
 
     const tools: Tool[] = [];
+    let processed = 0;
     for (const dir of toolDirs) {
-      try {
-        // Look for README or description files
-        const toolFiles = tree.tree.filter(
-          (item) => item.path.startsWith(dir.path + '/')
-        );
+      this.context.signal?.throwIfAborted();
 
-        const readmeFile = toolFiles.find(f => f.path.toLowerCase().includes('readme'));
+      try {
+        const readmeFile = readmeFiles.get(dir.path);
         let description = undefined;
 
         if (readmeFile) {
           try {
-            const content = await this.github.getFileContent(readmeFile.path);
+            const content = await contents.get(readmeFile.path)!;
             // Extract first line as description
             description = content.split('\n')[0].replace(/^#\s*/, '').trim();
           } catch (error) {
@@ -620,11 +735,13 @@ export class ContentScanner {
           filePath: dir.path,
         });
       } catch (error) {
-        console.error(`Error parsing ${dir.path}:`, error);
+        log.warning(`Error parsing ${dir.path}`, error);
       }
+
+      this.reportProgress(++processed, toolDirs.length, 'tools');
     }
 
-    console.error(`Successfully loaded ${tools.length} tools`);
+    log.info(`Successfully loaded ${tools.length} tools`);
     return tools;
   }
 
@@ -632,8 +749,8 @@ export class ContentScanner {
    * List all tutorials
    */
   async listTutorials(): Promise<Tutorial[]> {
-    console.error('Fetching tutorials from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching tutorials from repository...');
+    const tree = await this.getTree();
 
     const tutorialFiles = tree.tree.filter(
       (item) =>
@@ -641,10 +758,13 @@ export class ContentScanner {
         item.path.match(/^Tutorials\/.*\.(md|ipynb)$/i)
     );
 
-    console.error(`Found ${tutorialFiles.length} tutorial files`);
+    log.debug(`Found ${tutorialFiles.length} tutorial files`);
 
     const tutorials: Tutorial[] = [];
+    let processed = 0;
     for (const file of tutorialFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
         tutorials.push({
           id: file.path,
@@ -652,11 +772,13 @@ export class ContentScanner {
           filePath: file.path,
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, tutorialFiles.length, 'tutorials');
     }
 
-    console.error(`Successfully loaded ${tutorials.length} tutorials`);
+    log.info(`Successfully loaded ${tutorials.length} tutorials`);
     return tutorials;
   }
 
@@ -664,8 +786,8 @@ export class ContentScanner {
    * List all dashboards
    */
   async listDashboards(): Promise<Dashboard[]> {
-    console.error('Fetching dashboards from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching dashboards from repository...');
+    const tree = await this.getTree();
 
     const dashboardFiles = tree.tree.filter(
       (item) =>
@@ -674,12 +796,16 @@ export class ContentScanner {
           item.path.match(/^Solutions\/.*\/Dashboards\/.*\.json$/i))
     );
 
-    console.error(`Found ${dashboardFiles.length} dashboard files`);
+    log.debug(`Found ${dashboardFiles.length} dashboard files`);
 
     const dashboards: Dashboard[] = [];
+    let processed = 0;
+    const contents = prefetchFiles(this.github, dashboardFiles.map((f) => f.path), this.context.signal);
     for (const file of dashboardFiles) {
+      this.context.signal?.throwIfAborted();
+
       try {
-        const content = await this.github.getFileContent(file.path);
+        const content = await contents.get(file.path)!;
         const data = JSON.parse(content);
 
         dashboards.push({
@@ -690,11 +816,13 @@ export class ContentScanner {
           solution: this.extractSolutionName(file.path),
         });
       } catch (error) {
-        console.error(`Error parsing ${file.path}:`, error);
+        log.warning(`Error parsing ${file.path}`, error);
       }
+
+      this.reportProgress(++processed, dashboardFiles.length, 'dashboards');
     }
 
-    console.error(`Successfully loaded ${dashboards.length} dashboards`);
+    log.info(`Successfully loaded ${dashboards.length} dashboards`);
     return dashboards;
   }
 
@@ -702,8 +830,8 @@ export class ContentScanner {
    * List all data connectors (root-level)
    */
   async listDataConnectors(): Promise<DataConnector[]> {
-    console.error('Fetching data connectors from GitHub...');
-    const tree = await this.github.getTree();
+    log.info('Fetching data connectors from repository...');
+    const tree = await this.getTree();
 
     const connectorDirs = tree.tree.filter(
       (item) =>
@@ -711,22 +839,35 @@ export class ContentScanner {
         item.path.match(/^DataConnectors\/[^/]+$/)
     );
 
-    console.error(`Found ${connectorDirs.length} data connector directories`);
+    log.debug(`Found ${connectorDirs.length} data connector directories`);
+
+    // Look for JSON or README files in the connector directory
+    const jsonFiles = new Map(
+      connectorDirs.map((dir) => [
+        dir.path,
+        tree.tree
+          .filter((item) => item.path.startsWith(dir.path + '/'))
+          .find(f => f.path.endsWith('.json')),
+      ])
+    );
+    const contents = prefetchFiles(
+      this.github,
+      Array.from(jsonFiles.values()).flatMap((f) => (f ? [f.path] : [])),
+      this.context.signal
+    );
 
     const connectors: DataConnector[] = [];
+    let processed = 0;
     for (const dir of connectorDirs) {
-      try {
-        // Look for JSON or README files in the connector directory
-        const connectorFiles = tree.tree.filter(
-          (item) => item.path.startsWith(dir.path + '/')
-        );
+      this.context.signal?.throwIfAborted();
 
-        const jsonFile = connectorFiles.find(f => f.path.endsWith('.json'));
+      try {
+        const jsonFile = jsonFiles.get(dir.path);
         let description = undefined;
 
         if (jsonFile) {
           try {
-            const content = await this.github.getFileContent(jsonFile.path);
+            const content = await contents.get(jsonFile.path)!;
             const data = JSON.parse(content);
             description = data.description || data.metadata?.description;
           } catch (error) {
@@ -741,11 +882,13 @@ export class ContentScanner {
           filePath: dir.path,
         });
       } catch (error) {
-        console.error(`Error parsing ${dir.path}:`, error);
+        log.warning(`Error parsing ${dir.path}`, error);
       }
+
+      this.reportProgress(++processed, connectorDirs.length, 'data connectors');
     }
 
-    console.error(`Successfully loaded ${connectors.length} data connectors`);
+    log.info(`Successfully loaded ${connectors.length} data connectors`);
     return connectors;
   }
 }
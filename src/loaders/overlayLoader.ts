@@ -0,0 +1,260 @@
+/**
+ * Merge overlay repositories over base content
+ *
+ * Base items are tagged with source "upstream"; each overlay is scanned with
+ * the same loaders and its items shadow lower-precedence items that share an
+ * id or file path. Overlays extend the configured repository only - a call
+ * naming another repository gets that repository's content alone.
+ *
+ * Overlay scans are shared by concurrent calls and cached in memory for
+ * OVERLAY_SCAN_TTL_MS or until force_refresh. A scan runs outside the request
+ * that started it, so cancelling that request does not fail the others.
+ */
+
+import { AnalysisResult, TableMapping, AnalysisIssue, SolutionDetails } from '../types/index.js';
+import { OperationContext } from '../types/operation.js';
+import { RepositoryConfig } from '../types/repository.js';
+import { ContentScanner } from './contentScanner.js';
+import { SolutionLoader } from './solutionLoader.js';
+import { SingleSolutionLoader } from './singleSolutionLoader.js';
+import { createContentSource, repositoryKey } from '../repository/clientFactory.js';
+import { BASE_SOURCE, getOverlaySources, OverlaySource } from '../repository/overlays.js';
+import { copyIndexedItem } from '../utils/indexLoader.js';
+import { detached, waitUnlessAborted } from '../utils/concurrency.js';
+import { createLogger, withoutLogSink } from '../utils/logger.js';
+
+const log = createLogger('overlayLoader');
+
+interface SourcedItem {
+  id: string;
+  filePath?: string;
+  source?: string;
+}
+
+// Rescan overlays after this long, so upstream changes show up without force_refresh
+const OVERLAY_SCAN_TTL_MS = 15 * 60 * 1000;
+
+// Overlay scans by overlay repository and kind of content
+const scanCache = new Map<string, { scan: Promise<unknown>; startedAt: number }>();
+
+/**
+ * Copies of items tagged with a source, for those that do not record one yet
+ * Base items may be shared (the loaded index), so they are not changed in place.
+ */
+function tagSource<T extends { source?: string }>(items: T[], source: string): T[] {
+  return items.map((item) => (item.source ? item : copyIndexedItem(item, { source } as Partial<T>)));
+}
+
+/**
+ * Whether overlays apply to a call's repository: the configured one only
+ */
+function extendsConfiguredRepository(repository: Partial<RepositoryConfig> = {}): boolean {
+  return repositoryKey(repository) === repositoryKey({});
+}
+
+/**
+ * Scan one overlay, shared by concurrent calls and cached until it expires or is refreshed
+ * A failing overlay is reported and skipped so base content stays available.
+ */
+async function scanOverlay<T>(
+  overlay: OverlaySource,
+  kind: string,
+  scan: (overlay: OverlaySource) => Promise<T>,
+  refresh: boolean,
+  context: OperationContext
+): Promise<T | null> {
+  const key = `${repositoryKey(overlay.repository)}:${kind}`;
+  const cached = scanCache.get(key);
+  if (refresh || (cached && Date.now() - cached.startedAt > OVERLAY_SCAN_TTL_MS)) {
+    scanCache.delete(key);
+  }
+
+  let entry = scanCache.get(key);
+  if (!entry) {
+    const started = { scan: detached(() => withoutLogSink(() => scan(overlay))), startedAt: Date.now() };
+    started.scan.catch(() => {
+      // Failed scans are retried by the next call
+      if (scanCache.get(key) === started) {
+        scanCache.delete(key);
+      }
+    });
+    scanCache.set(key, started);
+    entry = started;
+  }
+
+  try {
+    return await waitUnlessAborted(entry.scan as Promise<T>, context.signal);
+  } catch (error) {
+    context.signal?.throwIfAborted();
+    log.resultWarning(
+      `Overlay "${overlay.id}" skipped: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Merge layers, lowest precedence first
+ * An item replaces the lower-precedence item with the same id or file path in place.
+ */
+function mergeLayers<T extends SourcedItem>(layers: T[][]): T[] {
+  const merged: Array<T | null> = [];
+  const byId = new Map<string, number>();
+  const byPath = new Map<string, number>();
+
+  for (const layer of layers) {
+    for (const item of layer) {
+      const idMatch = byId.get(item.id);
+      const pathMatch = item.filePath ? byPath.get(item.filePath) : undefined;
+      const position = idMatch ?? pathMatch ?? merged.length;
+
+      // Shadowing two different items (one by id, one by path) removes both
+      if (idMatch !== undefined && pathMatch !== undefined && idMatch !== pathMatch) {
+        merged[pathMatch] = null;
+      }
+
+      merged[position] = item;
+      byId.set(item.id, position);
+      if (item.filePath) {
+        byPath.set(item.filePath, position);
+      }
+    }
+  }
+
+  return merged.filter((item): item is T => item !== null);
+}
+
+/**
+ * Merge content from configured overlays over base items
+ */
+export async function applyOverlays<T extends SourcedItem>(
+  items: T[],
+  kind: string,
+  scan: (scanner: ContentScanner) => Promise<T[]>,
+  options: { refresh?: boolean; repository?: Partial<RepositoryConfig> } = {},
+  context: OperationContext = {}
+): Promise<T[]> {
+  const base = tagSource(items, BASE_SOURCE);
+
+  const overlays = getOverlaySources();
+  if (overlays.length === 0 || !extendsConfiguredRepository(options.repository)) {
+    return base;
+  }
+
+  const layers: T[][] = [base];
+  // Lowest precedence first: overlays are listed highest first
+  for (const overlay of [...overlays].reverse()) {
+    const overlayItems = await scanOverlay(
+      overlay,
+      kind,
+      async () => tagSource(await scan(new ContentScanner(createContentSource(overlay.repository))), overlay.id),
+      !!options.refresh,
+      context
+    );
+    if (overlayItems) {
+      layers.push(overlayItems);
+    }
+  }
+
+  return mergeLayers(layers);
+}
+
+/**
+ * Merge connector analysis from configured overlays over a base analysis
+ * Overlay connectors replace base mappings and issues with the same connector ID.
+ */
+export async function applyAnalysisOverlays(
+  result: AnalysisResult,
+  options: { refresh?: boolean; repository?: Partial<RepositoryConfig> } = {},
+  context: OperationContext = {}
+): Promise<AnalysisResult> {
+  let mappings: TableMapping[] = tagSource(result.mappings, BASE_SOURCE);
+  let issues: AnalysisIssue[] = tagSource(result.issues, BASE_SOURCE);
+
+  const overlays = getOverlaySources();
+  if (overlays.length === 0 || !extendsConfiguredRepository(options.repository)) {
+    return { ...result, mappings, issues };
+  }
+
+  let totalSolutions = result.metadata.totalSolutions;
+
+  for (const overlay of [...overlays].reverse()) {
+    const analysis = await scanOverlay(
+      overlay,
+      'analysis',
+      async () => {
+        const overlayResult = await new SolutionLoader(createContentSource(overlay.repository)).analyze();
+        return {
+          ...overlayResult,
+          mappings: tagSource(overlayResult.mappings, overlay.id),
+          issues: tagSource(overlayResult.issues, overlay.id),
+        };
+      },
+      !!options.refresh,
+      context
+    );
+    if (!analysis) {
+      continue;
+    }
+
+    const shadowed = new Set(analysis.mappings.map((m) => m.connectorId));
+    const knownSolutions = new Set(mappings.map((m) => m.solution));
+    totalSolutions += new Set(
+      analysis.mappings.map((m) => m.solution).filter((s) => !knownSolutions.has(s))
+    ).size;
+
+    mappings = [...mappings.filter((m) => !shadowed.has(m.connectorId)), ...analysis.mappings];
+    issues = [
+      ...issues.filter((i) => !i.connectorId || !shadowed.has(i.connectorId)),
+      ...analysis.issues,
+    ];
+  }
+
+  // Table uniqueness depends on every source's connectors
+  const tableCounts = new Map<string, number>();
+  mappings.forEach((m) => tableCounts.set(m.tableName, (tableCounts.get(m.tableName) || 0) + 1));
+  mappings = mappings.map((m) => ({ ...m, isUnique: tableCounts.get(m.tableName) === 1 }));
+
+  return {
+    ...result,
+    mappings,
+    issues,
+    metadata: {
+      ...result.metadata,
+      totalSolutions,
+      totalConnectors: new Set(mappings.map((m) => m.connectorId)).size,
+      totalTables: tableCounts.size,
+    },
+  };
+}
+
+/**
+ * Look a solution up in overlays (highest precedence first), then the base repository
+ */
+export async function analyzeSolutionWithOverlays(
+  solutionName: string,
+  base: () => Promise<SolutionDetails | null>,
+  options: { repository?: Partial<RepositoryConfig> } = {},
+  context: OperationContext = {}
+): Promise<SolutionDetails | null> {
+  const overlays = extendsConfiguredRepository(options.repository) ? getOverlaySources() : [];
+  for (const overlay of overlays) {
+    try {
+      const details = await new SingleSolutionLoader(
+        createContentSource(overlay.repository),
+        context
+      ).analyzeSolution(solutionName);
+      if (details) {
+        return { ...details, source: overlay.id };
+      }
+    } catch (error) {
+      context.signal?.throwIfAborted();
+      log.resultWarning(
+        `Overlay "${overlay.id}" skipped: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const details = await base();
+  return details ? { ...details, source: BASE_SOURCE } : null;
+}
@@ -7,7 +7,7 @@
 
 import * as yaml from 'js-yaml';
 import { extractTablesFromQuery } from './kqlParser.js';
-import { GitHubClient, GitHubTreeItem } from '../repository/githubClient.js';
+import { ContentSource, TreeItem } from '../types/repository.js';
 
 const MAX_RESOLUTION_DEPTH = 5; // Prevent infinite loops
 
@@ -20,13 +20,27 @@ export interface ParserInfo {
 export class ParserResolver {
   private parserCache: Map<string, ParserInfo> = new Map();
   private solutionPath: string;
-  private treeItems: GitHubTreeItem[];
-  private github: GitHubClient;
+  private treeItems: TreeItem[];
+  private github: ContentSource;
+  private signal?: AbortSignal;
+  private contents?: Map<string, Promise<string>>;
 
-  constructor(solutionPath: string, treeItems: GitHubTreeItem[], github: GitHubClient) {
+  /**
+   * @param contents Pending file contents by path (see prefetchFiles); files
+   * not in it are read from the source
+   */
+  constructor(
+    solutionPath: string,
+    treeItems: TreeItem[],
+    github: ContentSource,
+    signal?: AbortSignal,
+    contents?: Map<string, Promise<string>>
+  ) {
     this.solutionPath = solutionPath;
     this.treeItems = treeItems;
     this.github = github;
+    this.signal = signal;
+    this.contents = contents;
   }
 
   /**
@@ -44,6 +58,7 @@ export class ParserResolver {
     );
 
     for (const file of parserFiles) {
+      this.signal?.throwIfAborted();
       await this.parseParserFile(file.path);
     }
 
@@ -55,7 +70,7 @@ export class ParserResolver {
    */
   private async parseParserFile(filePath: string): Promise<void> {
     try {
-      const content = await this.github.getFileContent(filePath);
+      const content = await (this.contents?.get(filePath) ?? this.github.getFileContent(filePath, this.signal));
       let parserDef: any;
 
       // Try parsing as YAML first
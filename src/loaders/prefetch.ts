@@ -0,0 +1,36 @@
+/**
+ * Concurrent file prefetching for scanners and loaders
+ * Starts reading files with bounded concurrency while the caller processes
+ * them in order, so results keep tree order but downloads overlap.
+ */
+
+import { ContentSource } from '../types/repository.js';
+import { createLimiter, FETCH_CONCURRENCY } from '../utils/concurrency.js';
+
+/**
+ * Start fetching every path; returns each file's pending content by path
+ * Failures surface when the caller awaits that file's promise.
+ */
+export function prefetchFiles(
+  source: ContentSource,
+  paths: string[],
+  signal?: AbortSignal
+): Map<string, Promise<string>> {
+  const limit = createLimiter(FETCH_CONCURRENCY);
+  const contents = new Map<string, Promise<string>>();
+
+  for (const path of paths) {
+    if (contents.has(path)) {
+      continue;
+    }
+    const content = limit(() => {
+      signal?.throwIfAborted();
+      return source.getFileContent(path, signal);
+    });
+    // Mark handled - a scan that stops early must not leave unhandled rejections
+    content.catch(() => undefined);
+    contents.set(path, content);
+  }
+
+  return contents;
+}
@@ -12,13 +12,19 @@ import {
 import { parseJsonTolerant } from './jsonParser.js';
 import { extractTablesFromConnector } from './tableExtractor.js';
 import { ParserResolver } from './parserResolver.js';
-import { GitHubClient } from '../repository/githubClient.js';
+import { ContentSource } from '../types/repository.js';
+import { OperationContext } from '../types/operation.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('singleSolutionLoader');
 
 export class SingleSolutionLoader {
-  private github: GitHubClient;
+  private github: ContentSource;
+  private context: OperationContext;
 
-  constructor(github: GitHubClient) {
+  constructor(github: ContentSource, context: OperationContext = {}) {
     this.github = github;
+    this.context = context;
   }
 
   /**
@@ -26,7 +32,7 @@ export class SingleSolutionLoader {
    * Only fetches files for this solution
    */
   async analyzeSolution(solutionName: string): Promise<SolutionDetails | null> {
-    console.error(`Analyzing solution: ${solutionName}`);
+    log.info(`Analyzing solution: ${solutionName}`);
 
     const solutionPath = `Solutions/${solutionName}`;
 
@@ -36,31 +42,36 @@ export class SingleSolutionLoader {
       return null;
     }
 
-    // 2. Get tree to find connector and parser files
-    console.error('Fetching solution files from GitHub...');
-    const tree = await this.github.getTree();
+    // 2. List only this solution's files to find connectors and parsers
+    log.info('Fetching solution files from repository...');
+    const solutionFiles = await this.github.getSubtree(solutionPath, this.context.signal);
 
-    // 3. Find connector files for this solution only
-    const connectorFiles = tree.tree.filter(
+    // 3. Find connector files
+    const connectorFiles = solutionFiles.filter(
       (item) =>
         item.path.startsWith(`${solutionPath}/Data Connectors`) &&
         (item.path.endsWith('.json') || item.path.endsWith('.JSON')) &&
         item.type === 'blob'
     );
 
-    console.error(`Found ${connectorFiles.length} connectors`);
+    log.debug(`Found ${connectorFiles.length} connectors`);
 
     if (connectorFiles.length === 0) {
       return {
         metadata,
         connectors: [],
         uniqueTables: [],
-        githubUrl: this.github.getGitHubUrl(solutionPath),
+        githubUrl: this.github.getDirectoryUrl(solutionPath),
       };
     }
 
     // 4. Load parsers for this solution
-    const parserResolver = new ParserResolver(solutionPath, tree.tree, this.github);
+    const parserResolver = new ParserResolver(
+      solutionPath,
+      solutionFiles,
+      this.github,
+      this.context.signal
+    );
     await parserResolver.loadParsers();
 
     // 5. Analyze connectors
@@ -74,6 +85,7 @@ export class SingleSolutionLoader {
     const allTables = new Set<string>();
 
     for (const connectorFile of connectorFiles) {
+      this.context.signal?.throwIfAborted();
       const connectorData = await this.analyzeConnector(
         connectorFile.path,
         parserResolver
@@ -85,13 +97,13 @@ export class SingleSolutionLoader {
       }
     }
 
-    console.error(`Analysis complete! Found ${allTables.size} unique tables`);
+    log.info(`Analysis complete! Found ${allTables.size} unique tables`);
 
     return {
       metadata,
       connectors,
       uniqueTables: Array.from(allTables),
-      githubUrl: this.github.getGitHubUrl(solutionPath),
+      githubUrl: this.github.getDirectoryUrl(solutionPath),
     };
   }
 
@@ -105,7 +117,7 @@ export class SingleSolutionLoader {
     const metadataPath = `${solutionPath}/SolutionMetadata.json`;
 
     try {
-      const content = await this.github.getFileContent(metadataPath);
+      const content = await this.github.getFileContent(metadataPath, this.context.signal);
       const result = parseJsonTolerant<any>(content);
 
       if (result.error || !result.data) {
@@ -122,7 +134,8 @@ export class SingleSolutionLoader {
         description: data.description,
       };
     } catch (error) {
-      console.error(`Could not load metadata for ${solutionName}`);
+      this.context.signal?.throwIfAborted();
+      log.warning(`Could not load metadata for ${solutionName}`, error);
       return null;
     }
   }
@@ -140,7 +153,7 @@ export class SingleSolutionLoader {
     tables: string[];
   } | null> {
     try {
-      const content = await this.github.getFileContent(connectorFilePath);
+      const content = await this.github.getFileContent(connectorFilePath, this.context.signal);
       const result = parseJsonTolerant(content);
 
       if (result.error || !result.data) {
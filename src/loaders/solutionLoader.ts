@@ -13,30 +13,41 @@ import {
 import { parseJsonTolerant } from './jsonParser.js';
 import { extractTablesFromConnector } from './tableExtractor.js';
 import { ParserResolver } from './parserResolver.js';
-import { GitHubClient, GitHubTreeItem } from '../repository/githubClient.js';
+import { prefetchFiles } from './prefetch.js';
+import { ContentSource, TreeItem } from '../types/repository.js';
+import { OperationContext } from '../types/operation.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('solutionLoader');
 
 export class SolutionLoader {
-  private github: GitHubClient;
+  private github: ContentSource;
+  private context: OperationContext;
   private mappings: TableMapping[] = [];
   private issues: AnalysisIssue[] = [];
   private tableOccurrences: Map<string, number> = new Map();
+  // Files prefetched by analyze, by path
+  private contents: Map<string, Promise<string>> = new Map();
 
-  constructor(github: GitHubClient) {
+  constructor(github: ContentSource, context: OperationContext = {}) {
     this.github = github;
+    this.context = context;
   }
 
   /**
    * Analyze all solutions using GitHub API
+   * @param only Solution directory names to analyze (incremental index builds);
+   * totalSolutions still counts every solution
    */
-  async analyze(): Promise<AnalysisResult> {
+  async analyze(only?: ReadonlySet<string>): Promise<AnalysisResult> {
     this.mappings = [];
     this.issues = [];
     this.tableOccurrences = new Map();
 
-    console.error('Fetching repository tree from GitHub...');
+    log.info('Fetching repository tree from repository...');
 
     // Get the full tree
-    const tree = await this.github.getTree();
+    const tree = await this.github.getTree(undefined, this.context.signal);
 
     // Filter for Solutions directory
     const solutionItems = tree.tree.filter(
@@ -52,17 +63,46 @@ export class SolutionLoader {
       }
     });
 
-    console.error(`Found ${solutionNames.size} solutions to analyze`);
+    const selected = only
+      ? Array.from(solutionNames).filter((name) => only.has(name))
+      : Array.from(solutionNames);
+
+    log.info(`Found ${solutionNames.size} solutions, analyzing ${selected.length}`);
+
+    // Download metadata, connector and parser files concurrently; solutions
+    // are still analyzed in order and read them as they arrive
+    this.contents = prefetchFiles(
+      this.github,
+      tree.tree
+        .filter(
+          (item) =>
+            item.type === 'blob' &&
+            /^Solutions\/[^/]+\/(SolutionMetadata\.json$|Data Connectors\/.*\.json$|Parsers\/.*\.(ya?ml|json)$)/.test(item.path) &&
+            (!only || only.has(item.path.split('/')[1]))
+        )
+        .map((item) => item.path),
+      this.context.signal
+    );
 
     // Analyze each solution
-    for (const solutionName of solutionNames) {
-      await this.analyzeSolution(solutionName, tree);
+    let processed = 0;
+    try {
+      for (const solutionName of selected) {
+        this.context.signal?.throwIfAborted();
+        await this.analyzeSolution(solutionName, tree);
+        this.reportProgress(++processed, selected.length);
+      }
+    } finally {
+      this.contents = new Map();
     }
 
     // Calculate table uniqueness
     this.calculateTableUniqueness();
 
-    console.error('Analysis complete!');
+    // Same commit the tree and files were read from
+    const commitSha = await this.github.getLatestCommitSha(this.context.signal);
+
+    log.info('Analysis complete!');
 
     const uniqueTables = new Set(this.mappings.map((m) => m.tableName));
     const uniqueConnectors = new Set(this.mappings.map((m) => m.connectorId));
@@ -75,10 +115,18 @@ export class SolutionLoader {
         totalConnectors: uniqueConnectors.size,
         totalTables: uniqueTables.size,
         analysisDate: new Date().toISOString(),
+        repositoryCommit: commitSha !== 'unknown' ? commitSha : undefined,
       },
     };
   }
 
+  /**
+   * Read a file, from the prefetch when analyze started one for it
+   */
+  private readFile(filePath: string): Promise<string> {
+    return this.contents.get(filePath) ?? this.github.getFileContent(filePath, this.context.signal);
+  }
+
   /**
    * Analyze a single solution
    */
@@ -90,7 +138,7 @@ export class SolutionLoader {
 
     // Find connector JSON files for this solution
     const connectorFiles = tree.tree.filter(
-      (item: GitHubTreeItem) =>
+      (item: TreeItem) =>
         item.path.startsWith(`${solutionPath}/Data Connectors`) &&
         item.path.endsWith('.json') &&
         item.type === 'blob'
@@ -101,7 +149,13 @@ export class SolutionLoader {
     }
 
     // Create parser resolver for this solution
-    const parserResolver = new ParserResolver(solutionPath, tree.tree, this.github);
+    const parserResolver = new ParserResolver(
+      solutionPath,
+      tree.tree,
+      this.github,
+      this.context.signal,
+      this.contents
+    );
     await parserResolver.loadParsers();
 
     // Analyze each connector
@@ -125,7 +179,7 @@ export class SolutionLoader {
     const metadataPath = `${solutionPath}/SolutionMetadata.json`;
 
     try {
-      const content = await this.github.getFileContent(metadataPath);
+      const content = await this.readFile(metadataPath);
       const result = parseJsonTolerant<any>(content);
 
       if (result.error || !result.data) {
@@ -142,6 +196,7 @@ export class SolutionLoader {
         description: data.description,
       };
     } catch (error) {
+      this.context.signal?.throwIfAborted();
       this.issues.push({
         solution: solutionName,
         issueType: 'missing_metadata',
@@ -167,7 +222,7 @@ export class SolutionLoader {
     parserResolver: ParserResolver
   ): Promise<void> {
     try {
-      const content = await this.github.getFileContent(connectorFilePath);
+      const content = await this.readFile(connectorFilePath);
       const result = parseJsonTolerant<ConnectorDefinition>(content);
 
       if (result.error || !result.data) {
@@ -225,6 +280,7 @@ export class SolutionLoader {
 
         this.mappings.push({
           solution: metadata.name,
+          solutionPath: `Solutions/${solutionName}`,
           publisher: metadata.publisher,
           version: metadata.version,
           supportTier: metadata.supportTier,
@@ -234,8 +290,8 @@ export class SolutionLoader {
           tableName,
           isUnique: false, // Will be calculated later
           detectionMethod,
-          solutionUrl: this.github.getGitHubUrl(`Solutions/${solutionName}`),
-          connectorFileUrl: this.github.getGitHubBlobUrl(connectorFilePath),
+          solutionUrl: this.github.getDirectoryUrl(`Solutions/${solutionName}`),
+          connectorFileUrl: this.github.getFileUrl(connectorFilePath),
         });
 
         // Track table occurrences
@@ -243,6 +299,7 @@ export class SolutionLoader {
         this.tableOccurrences.set(tableName, count + 1);
       });
     } catch (error) {
+      this.context.signal?.throwIfAborted();
       this.issues.push({
         solution: solutionName,
         issueType: 'json_parse_error',
@@ -252,6 +309,23 @@ export class SolutionLoader {
     }
   }
 
+  /**
+   * Report analysis progress - as an MCP progress notification when the
+   * client requested one, otherwise as a log message
+   */
+  private reportProgress(processed: number, total: number): void {
+    if (processed % 10 !== 0 && processed !== total) {
+      return;
+    }
+
+    const message = `Processed ${processed}/${total} solutions...`;
+    if (this.context.onProgress) {
+      this.context.onProgress(processed, total, message);
+    } else {
+      log.info(message);
+    }
+  }
+
   /**
    * Calculate table uniqueness based on occurrences
    */
@@ -0,0 +1,173 @@
+/**
+ * MCP Prompt templates for common SOC workflows
+ *
+ * Each prompt expands into a multi-step instruction built on the existing tools:
+ * - review_solution: start from get_solution_details and map its coverage
+ * - detections_by_tactic: walk list_detections for a MITRE ATT&CK tactic
+ * - table_coverage_gaps: find tables with little or no detection coverage
+ * - audit_connector: audit validate_connector output for a connector definition
+ */
+
+import { z } from 'zod';
+
+interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+type ArgsSchema = z.ZodObject<Record<string, z.ZodType>>;
+
+/**
+ * A prompt as the server calls it: arguments are parsed with argsSchema and
+ * build takes the parsed result
+ */
+export interface Prompt<Schema extends ArgsSchema = ArgsSchema> {
+  name: string;
+  description: string;
+  argsSchema: Schema;
+  build(args: z.output<Schema>): PromptMessage[];
+}
+
+/**
+ * Wrap prompt text as a single user message
+ */
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Prompt 1: Review a solution
+ */
+export const reviewSolutionPrompt = {
+  name: 'review_solution',
+  description: 'Review a Sentinel solution: connectors, tables, and the detections and hunting queries that use them',
+  argsSchema: z.object({
+    solution_name: z.string().describe('Exact solution name (e.g., "Azure Active Directory")'),
+  }),
+  build: (args: { solution_name: string }): PromptMessage[] => [
+    userMessage(
+      [
+        `Review the Microsoft Sentinel solution "${args.solution_name}".`,
+        '',
+        `1. Call get_solution_details with solution_name "${args.solution_name}" to get its connectors and tables.`,
+        `2. Call list_detections with solution "${args.solution_name}" to list its analytics rules.`,
+        `3. Call list_hunting_queries with solution "${args.solution_name}" to list its hunting queries.`,
+        '4. For each table, note which connectors populate it and whether any detection references it.',
+        '',
+        'Summarise the solution, its data sources, detection coverage by MITRE ATT&CK tactic, and any connectors whose tables have no detections.',
+      ].join('\n')
+    ),
+  ],
+};
+
+/**
+ * Prompt 2: Detections by tactic
+ */
+export const detectionsByTacticPrompt = {
+  name: 'detections_by_tactic',
+  description: 'Walk the detection library for a MITRE ATT&CK tactic and summarise coverage by technique',
+  argsSchema: z.object({
+    tactic: z.string().describe('MITRE ATT&CK tactic (e.g., "Persistence", "LateralMovement")'),
+    solution: z.string().optional().describe('Optional solution name to narrow the search'),
+  }),
+  build: (args: { tactic: string; solution?: string }): PromptMessage[] => {
+    const solutionFilter = args.solution ? ` and solution "${args.solution}"` : '';
+    return [
+      userMessage(
+        [
+          `Analyse Microsoft Sentinel detection coverage for the MITRE ATT&CK tactic "${args.tactic}".`,
+          '',
+          `1. Call list_detections with tactic "${args.tactic}"${solutionFilter}. While the response has a next_cursor, call it again with that cursor to get every page.`,
+          '2. Group the detections by technique and by severity.',
+          `3. Call list_hunting_queries with tactic "${args.tactic}"${solutionFilter} to find complementary hunting content.`,
+          '4. Use get_detection_details for any rule whose purpose is unclear from its name.',
+          '',
+          'Report the techniques covered, the techniques with only hunting queries, and the solutions contributing most coverage.',
+        ].join('\n')
+      ),
+    ];
+  },
+};
+
+/**
+ * Prompt 3: Coverage gaps for tables
+ */
+export const tableCoverageGapsPrompt = {
+  name: 'table_coverage_gaps',
+  description: 'Find detection coverage gaps for a set of Log Analytics tables',
+  argsSchema: z.object({
+    tables: z.string().describe('Comma-separated table names (e.g., "SigninLogs, Syslog, CommonSecurityLog")'),
+  }),
+  build: (args: { tables: string }): PromptMessage[] => {
+    const tables = args.tables
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean);
+
+    return [
+      userMessage(
+        [
+          `Find Microsoft Sentinel coverage gaps for these tables: ${tables.join(', ')}.`,
+          '',
+          '1. Call list_tables to confirm which connectors and solutions populate each table.',
+          ...tables.map(
+            (table, i) =>
+              `${i + 2}. Call list_detections and list_hunting_queries with query_contains "${table}" to find content that queries ${table}.`
+          ),
+          '',
+          'For each table, report the number of detections and hunting queries, the MITRE ATT&CK tactics they cover, and the tactics with no coverage. Highlight tables with no detections at all.',
+        ].join('\n')
+      ),
+    ];
+  },
+};
+
+/**
+ * Prompt 4: Audit a connector definition
+ */
+export const auditConnectorPrompt = {
+  name: 'audit_connector',
+  description: 'Audit a data connector JSON definition using validate_connector and compare it with existing connectors',
+  argsSchema: z.object({
+    connector_json: z.string().describe('Connector JSON content to audit'),
+  }),
+  build: (args: { connector_json: string }): PromptMessage[] => [
+    userMessage(
+      [
+        'Audit the following Microsoft Sentinel data connector definition.',
+        '',
+        '1. Call validate_connector with the connector JSON below.',
+        '2. Explain every error and warning it reports and how to fix it.',
+        '3. For each extracted table, call list_tables to check whether other connectors already populate it.',
+        '4. If the connector ID already exists, call get_connector_tables with it and compare the table lists.',
+        '',
+        'Finish with a checklist of required fixes and recommended improvements.',
+        '',
+        '```json',
+        args.connector_json,
+        '```',
+      ].join('\n')
+    ),
+  ],
+};
+
+/**
+ * Complete list of all prompts
+ */
+export const allPrompts: Prompt[] = [
+  reviewSolutionPrompt,
+  detectionsByTacticPrompt,
+  tableCoverageGapsPrompt,
+  auditConnectorPrompt,
+];
+
+/**
+ * Describe prompt arguments for prompts/list from the Zod schema
+ */
+export function describePromptArguments(schema: ArgsSchema): Array<{ name: string; description?: string; required: boolean }> {
+  return Object.entries(schema.shape).map(([name, field]) => ({
+    name,
+    description: field.description,
+    required: !field.safeParse(undefined).success,
+  }));
+}
@@ -0,0 +1,169 @@
+/**
+ * Access policy for repositories named in tool calls
+ *
+ * Any tool call can point the server at another repository (repository_owner,
+ * repository_name, repository_path, ...). On a shared server
+ * SENTINEL_ACCESS_POLICY restricts that. It holds a JSON object - or the path
+ * of a JSON file:
+ *
+ *   { "repositories": [
+ *       { "repository": "Azure/*" },
+ *       { "repository": "contoso/sentinel-*", "branches": ["main", "release/*"], "auth": "token" } ],
+ *     "defaultAuth": "anonymous",
+ *     "maxFilesPerRequest": 2000,
+ *     "allowRepositoryPath": false }
+ *
+ * - repositories: allowlist of owner/name patterns, optionally limited to
+ *   branch patterns (matched against repository_ref when given); "*" matches
+ *   any run of characters within one path segment, so "release/*" does not
+ *   match "release/a/b". Owner, name and ref are validated before matching.
+ * - auth: the most a call may use for that entry - "token" lets it send the
+ *   configured GitHub token, "anonymous" only reads without it; defaults to
+ *   defaultAuth. A call picks within that with repository_auth (default: the
+ *   entry's auth).
+ * - maxFilesPerRequest: most files one tool call may download from GitHub
+ * - allowRepositoryPath: whether repository_path may name a checkout or archive
+ *
+ * The configured repository (SENTINEL_REPO_*) and overlays are always allowed
+ * and keep their own authentication. Without a policy every repository is
+ * allowed, but repository_path only when the server is not shared over HTTP
+ * (see restrictRepositoryPaths).
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { GITHUB_NAME_PATTERN, isSafeRef, RepositoryAuth, RepositoryConfig } from '../types/repository.js';
+
+const authSchema = z.enum(['token', 'anonymous']);
+
+const policySchema = z.object({
+  repositories: z
+    .array(
+      z.object({
+        repository: z.string().regex(/^[^/]+\/[^/]+$/, 'expected an "owner/name" pattern'),
+        branches: z.array(z.string().min(1)).optional(),
+        auth: authSchema.optional(),
+      })
+    )
+    .default([]),
+  defaultAuth: authSchema.default('anonymous'),
+  maxFilesPerRequest: z.number().int().positive().optional(),
+  allowRepositoryPath: z.boolean().default(false),
+});
+
+export type AccessPolicy = z.infer<typeof policySchema>;
+
+/**
+ * How a repository may be read
+ */
+export interface RepositoryAccess {
+  auth: RepositoryAuth;
+  /** Most files one request may download from GitHub, if limited */
+  maxFiles?: number;
+}
+
+let policy: AccessPolicy | null | undefined;
+// Whether repository_path is allowed when no policy is configured
+let repositoryPathsAllowed = true;
+
+/**
+ * Parse an access policy (JSON text or a file path)
+ */
+export function parseAccessPolicy(value: string): AccessPolicy {
+  const text = value.trim().startsWith('{') ? value : fs.readFileSync(value, 'utf-8');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid SENTINEL_ACCESS_POLICY: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = policySchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid SENTINEL_ACCESS_POLICY: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Configured policy, or null when every repository is allowed
+ */
+export function getAccessPolicy(): AccessPolicy | null {
+  if (policy === undefined) {
+    policy = process.env.SENTINEL_ACCESS_POLICY ? parseAccessPolicy(process.env.SENTINEL_ACCESS_POLICY) : null;
+  }
+  return policy;
+}
+
+/**
+ * Refuse repository_path without a policy allowing it, for servers shared
+ * over HTTP, where any client could otherwise read the server's directories
+ */
+export function restrictRepositoryPaths(): void {
+  repositoryPathsAllowed = false;
+}
+
+/**
+ * Match a glob pattern where "*" stands for any run of characters but "/"
+ */
+function matchesPattern(pattern: string, value: string, ignoreCase: boolean): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '').test(value);
+}
+
+/**
+ * Check a repository named in a tool call against the policy
+ * configured is true for the server's own repository and overlays, which the
+ * policy does not restrict. Throws when the repository is not allowed.
+ */
+export function authorizeRepository(config: RepositoryConfig, configured: boolean): RepositoryAccess {
+  const current = getAccessPolicy();
+  if (configured) {
+    return { auth: 'token' };
+  }
+
+  if (config.sourceType === 'local' || config.sourceType === 'archive') {
+    if (!(current ? current.allowRepositoryPath : repositoryPathsAllowed)) {
+      throw new Error('repository_path is not allowed by the access policy (SENTINEL_ACCESS_POLICY)');
+    }
+    return { auth: current?.defaultAuth || 'token' };
+  }
+
+  // Checked here as well as in the tool schemas: a "/" or ".." would let the
+  // request URL resolve to a repository the pattern did not match
+  const ref = config.ref || config.branch;
+  if (!GITHUB_NAME_PATTERN.test(config.owner) || !GITHUB_NAME_PATTERN.test(config.name) || !isSafeRef(ref)) {
+    throw new Error(`Invalid repository ${config.owner}/${config.name}@${ref}`);
+  }
+
+  if (!current) {
+    return { auth: config.auth || 'token' };
+  }
+
+  // Owner and name are case-insensitive on GitHub, branches are not
+  const repository = `${config.owner}/${config.name}`;
+  const entry = current.repositories.find(
+    (candidate) =>
+      matchesPattern(candidate.repository, repository, true) &&
+      (!candidate.branches || candidate.branches.some((branch) => matchesPattern(branch, ref, false)))
+  );
+  if (!entry) {
+    throw new Error(
+      `Repository ${repository}@${ref} is not allowed by the access policy (SENTINEL_ACCESS_POLICY)`
+    );
+  }
+
+  // The entry's auth is the most a call may ask for
+  const allowed = entry.auth || current.defaultAuth;
+  if (config.auth === 'token' && allowed === 'anonymous') {
+    throw new Error(
+      `Reading ${repository}@${ref} with the server's token is not allowed by the access policy (SENTINEL_ACCESS_POLICY) - use repository_auth: anonymous`
+    );
+  }
+
+  return { auth: config.auth || allowed, maxFiles: current.maxFilesPerRequest };
+}
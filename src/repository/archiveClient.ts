@@ -0,0 +1,137 @@
+/**
+ * Archive client for a .zip or .tar.gz snapshot of a Sentinel content repository
+ * ContentSource that extracts the archive on first use and then reads the
+ * extracted files like a local checkout. Any repository host that can export
+ * a snapshot (GitHub, Azure DevOps, GitLab) can be analysed this way.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  RepositoryConfig,
+  DEFAULT_REPOSITORY_CONFIG,
+  ContentSource,
+  TreeItem,
+  RepositoryTree,
+} from '../types/repository.js';
+import { LocalRepositoryClient } from './localClient.js';
+import { extractArchive } from './archiveExtractor.js';
+
+interface OpenedArchive {
+  source: LocalRepositoryClient;
+  commitSha?: string;
+}
+
+export class ArchiveRepositoryClient implements ContentSource {
+  private config: RepositoryConfig;
+  private archivePath: string;
+  private opened: Promise<OpenedArchive> | null = null;
+
+  constructor(config: Partial<RepositoryConfig> & { localPath: string }) {
+    this.config = {
+      ...DEFAULT_REPOSITORY_CONFIG,
+      ...config,
+      sourceType: 'archive',
+    };
+    this.archivePath = path.resolve(config.localPath);
+  }
+
+  /**
+   * Extract the archive once and read from the extracted tree
+   */
+  private open(signal?: AbortSignal): Promise<OpenedArchive> {
+    signal?.throwIfAborted();
+    if (!this.opened) {
+      this.opened = extractArchive(this.archivePath).then(({ root, commitSha }) => ({
+        source: new LocalRepositoryClient({ ...this.config, localPath: root }),
+        commitSha,
+      }));
+      // Allow a retry after a failed extraction
+      this.opened.catch(() => {
+        this.opened = null;
+      });
+    }
+    return this.opened;
+  }
+
+  /**
+   * Get the repository configuration
+   */
+  getConfig(): RepositoryConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the commit recorded in the archive, or 'unknown'
+   */
+  async getLatestCommitSha(signal?: AbortSignal): Promise<string> {
+    const { source, commitSha } = await this.open(signal);
+    return commitSha || source.getLatestCommitSha(signal);
+  }
+
+  /**
+   * A snapshot carries no history, so changes cannot be listed
+   */
+  async getChangedPaths(_baseCommit: string, signal?: AbortSignal): Promise<string[] | null> {
+    signal?.throwIfAborted();
+    return null;
+  }
+
+  /**
+   * Get file content from the extracted archive
+   */
+  async getFileContent(filePath: string, signal?: AbortSignal): Promise<string> {
+    return (await this.open(signal)).source.getFileContent(filePath, signal);
+  }
+
+  /**
+   * List directory contents
+   */
+  async listDirectory(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    return (await this.open(signal)).source.listDirectory(dirPath, signal);
+  }
+
+  /**
+   * Get the full tree of the extracted archive
+   */
+  async getTree(treeSha?: string, signal?: AbortSignal): Promise<RepositoryTree> {
+    const { source } = await this.open(signal);
+    const tree = await source.getTree(treeSha, signal);
+    return { ...tree, sha: await this.getLatestCommitSha(signal) };
+  }
+
+  /**
+   * Get every item below a directory of the extracted archive
+   */
+  async getSubtree(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    return (await this.open(signal)).source.getSubtree(dirPath, signal);
+  }
+
+  /**
+   * Find all files matching a pattern in the tree
+   */
+  filterTreeByPattern(tree: RepositoryTree, pattern: RegExp): TreeItem[] {
+    return tree.tree.filter((item) => item.type === 'blob' && pattern.test(item.path));
+  }
+
+  /**
+   * Clear the cache (the extracted files are kept)
+   */
+  clearCache(): void {
+    this.opened?.then(({ source }) => source.clearCache()).catch(() => undefined);
+  }
+
+  /**
+   * Generate a URL for a directory inside the archive
+   */
+  getDirectoryUrl(dirPath: string): string {
+    return `${pathToFileURL(this.archivePath).href}#${dirPath}`;
+  }
+
+  /**
+   * Generate a URL for a file inside the archive
+   */
+  getFileUrl(filePath: string): string {
+    return `${pathToFileURL(this.archivePath).href}#${filePath}`;
+  }
+}
@@ -0,0 +1,487 @@
+/**
+ * Archive extraction for repository snapshots (.zip, .tar.gz, .tgz, .tar)
+ *
+ * Archives are extracted once per process into a private directory under the
+ * OS temp directory (created with mkdtemp, removed on exit), keyed by archive
+ * path, size and modification time, and then read from disk. A single
+ * top-level folder (e.g. "Azure-Sentinel-master/") is treated as the
+ * repository root.
+ *
+ * Extraction fails when an archive holds more entries or bytes than the
+ * limits below allow, so a small archive cannot fill the disk or memory:
+ * - SENTINEL_ARCHIVE_MAX_ENTRY_MB: largest entry (default: 100, GitHub's file size limit)
+ * - SENTINEL_ARCHIVE_MAX_TOTAL_MB: all entries together (default: 8192)
+ * - SENTINEL_ARCHIVE_MAX_ENTRIES: number of entries (default: 500000)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('archiveExtractor');
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+// Zip record signatures and the field value meaning "see the zip64 extra field"
+const ZIP_EOCD = 0x06054b50;
+const ZIP64_EOCD = 0x06064b50;
+const ZIP64_EOCD_LOCATOR = 0x07064b50;
+const ZIP_CENTRAL_ENTRY = 0x02014b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const ZIP64_MARKER = 0xffffffff;
+
+const MAX_ENTRY_BYTES = Number(process.env.SENTINEL_ARCHIVE_MAX_ENTRY_MB || 100) * 1024 * 1024;
+const MAX_TOTAL_BYTES = Number(process.env.SENTINEL_ARCHIVE_MAX_TOTAL_MB || 8192) * 1024 * 1024;
+const MAX_ENTRIES = Number(process.env.SENTINEL_ARCHIVE_MAX_ENTRIES || 500000);
+// Tar adds a header block and at most one block of padding to each entry
+const MAX_TAR_BYTES = MAX_TOTAL_BYTES + MAX_ENTRIES * 1024;
+
+// This process's extraction directory, and extractions in progress or done by key
+let extractionRoot: string | null = null;
+const extractions = new Map<string, Promise<ExtractedArchive>>();
+
+/**
+ * Paths treated as archives when no source type is given
+ */
+export const ARCHIVE_PATTERN = /\.(zip|tar\.gz|tgz|tar)$/i;
+
+export interface ExtractedArchive {
+  /** Directory holding the repository root */
+  root: string;
+  /** Commit recorded in the archive (GitHub zip comment / tar pax header), if any */
+  commitSha?: string;
+}
+
+/**
+ * Entries and bytes extracted so far from one archive, checked against the limits
+ */
+class ExtractionBudget {
+  private entries = 0;
+  private bytes = 0;
+
+  /**
+   * Throw if an entry of this many bytes is larger than any entry may be
+   */
+  checkSize(name: string, size: number): void {
+    if (size > MAX_ENTRY_BYTES) {
+      throw new Error(
+        `Archive entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB (SENTINEL_ARCHIVE_MAX_ENTRY_MB)`
+      );
+    }
+  }
+
+  /**
+   * Count an entry before writing it, throwing past any limit
+   */
+  add(name: string, size: number): void {
+    this.checkSize(name, size);
+    if (++this.entries > MAX_ENTRIES) {
+      throw new Error(`Archive holds more than ${MAX_ENTRIES} entries (SENTINEL_ARCHIVE_MAX_ENTRIES)`);
+    }
+    this.bytes += size;
+    if (this.bytes > MAX_TOTAL_BYTES) {
+      throw new Error(`Archive extracts to more than ${MAX_TOTAL_BYTES / 1024 / 1024} MB (SENTINEL_ARCHIVE_MAX_TOTAL_MB)`);
+    }
+  }
+}
+
+/**
+ * Reject entry names that are absolute or climb out of the extraction directory
+ */
+function safeEntryPath(name: string): string | null {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/'));
+  if (
+    normalized.startsWith('/') ||
+    normalized === '..' ||
+    normalized.startsWith('../') ||
+    /^[a-zA-Z]:/.test(normalized)
+  ) {
+    return null;
+  }
+  return normalized === '.' ? null : normalized.replace(/\/$/, '');
+}
+
+/**
+ * Write one archive entry below the extraction directory
+ */
+async function writeEntry(target: string, name: string, data: Buffer | null): Promise<void> {
+  const entryPath = safeEntryPath(name);
+  if (!entryPath) {
+    log.warning(`Skipping unsafe archive entry: ${name}`);
+    return;
+  }
+
+  const fullPath = path.join(target, entryPath);
+  if (data === null) {
+    await fs.promises.mkdir(fullPath, { recursive: true });
+    return;
+  }
+
+  await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.promises.writeFile(fullPath, data);
+}
+
+/**
+ * Parse pax extended header records ("<len> <key>=<value>\n")
+ */
+function parsePaxHeader(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) {
+      break;
+    }
+    const length = parseInt(data.toString('utf-8', offset, space), 10);
+    if (!length) {
+      break;
+    }
+    const record = data.toString('utf-8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.substring(0, equals)] = record.substring(equals + 1);
+    }
+    offset += length;
+  }
+
+  return records;
+}
+
+/**
+ * Read a NUL-terminated string field from a tar header
+ */
+function tarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf-8', 0, end === -1 ? length : end);
+}
+
+/**
+ * Stream-extract a tar (optionally gzipped) archive
+ */
+async function extractTar(archivePath: string, target: string, gzipped: boolean): Promise<string | undefined> {
+  const input = fs.createReadStream(archivePath);
+  const stream = gzipped ? input.pipe(zlib.createGunzip()) : input;
+  const budget = new ExtractionBudget();
+  // zlib streams ignore maxOutputLength, so the gunzipped bytes are counted here
+  let streamed = 0;
+
+  // Chunks are collected until the next header or entry is complete, then
+  // joined once, so a large entry is not copied again for every chunk
+  const chunks: Buffer[] = [];
+  let buffered = 0;
+  let needed = 512;
+  let commitSha: string | undefined;
+  let longName: string | undefined;
+  let pax: Record<string, string> = {};
+
+  for await (const chunk of stream) {
+    streamed += (chunk as Buffer).length;
+    if (streamed > MAX_TAR_BYTES) {
+      throw new Error(`Archive extracts to more than ${MAX_TOTAL_BYTES / 1024 / 1024} MB (SENTINEL_ARCHIVE_MAX_TOTAL_MB)`);
+    }
+    chunks.push(chunk as Buffer);
+    buffered += (chunk as Buffer).length;
+    if (buffered < needed) {
+      continue;
+    }
+
+    let pending = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks, buffered);
+    needed = 512;
+
+    while (pending.length >= 512) {
+      const header = pending.subarray(0, 512);
+      if (header.every((byte) => byte === 0)) {
+        pending = pending.subarray(512);
+        continue; // End-of-archive padding
+      }
+
+      const typeFlag = String.fromCharCode(header[156] || 0x30);
+      const prefix = tarString(header, 345, 155);
+      const headerName = tarString(header, 0, 100);
+      const name = longName || pax.path || (prefix ? `${prefix}/${headerName}` : headerName);
+
+      const size = parseInt(tarString(header, 124, 12).trim() || '0', 8);
+      const blockSize = 512 + Math.ceil(size / 512) * 512;
+      if (pending.length < blockSize) {
+        // Wait for the rest of this entry, unless it is too large to hold
+        budget.checkSize(name, size);
+        needed = blockSize;
+        break;
+      }
+
+      budget.add(name, size);
+      const data = Buffer.from(pending.subarray(512, 512 + size));
+      pending = pending.subarray(blockSize);
+
+      switch (typeFlag) {
+        case 'g': {
+          const global = parsePaxHeader(data);
+          if (global.comment && COMMIT_SHA_PATTERN.test(global.comment)) {
+            commitSha = global.comment;
+          }
+          continue;
+        }
+        case 'x':
+          pax = parsePaxHeader(data);
+          continue;
+        case 'L':
+          longName = data.toString('utf-8').replace(/\0+$/, '');
+          continue;
+        case '0':
+        case '\0':
+        case '7':
+          await writeEntry(target, name, data);
+          break;
+        case '5':
+          await writeEntry(target, name, null);
+          break;
+        default:
+          // Links and special files are not needed for content analysis
+          break;
+      }
+
+      longName = undefined;
+      pax = {};
+    }
+
+    chunks.length = 0;
+    chunks.push(pending);
+    buffered = pending.length;
+  }
+
+  return commitSha;
+}
+
+/**
+ * Values the zip64 extra field holds for a central directory entry's fields
+ * that are set to 0xffffffff, in the order the format stores them
+ */
+function readZip64Extra(
+  extra: Buffer,
+  fields: { uncompressedSize: number; compressedSize: number; localOffset: number }
+): typeof fields {
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const length = extra.readUInt16LE(offset + 2);
+    if (id === ZIP64_EXTRA_ID) {
+      const result = { ...fields };
+      let position = offset + 4;
+      for (const field of ['uncompressedSize', 'compressedSize', 'localOffset'] as const) {
+        if (fields[field] === ZIP64_MARKER) {
+          if (position + 8 > offset + 4 + length) {
+            throw new Error('Corrupt zip archive: short zip64 extra field');
+          }
+          result[field] = Number(extra.readBigUInt64LE(position));
+          position += 8;
+        }
+      }
+      return result;
+    }
+    offset += 4 + length;
+  }
+  throw new Error('Corrupt zip archive: zip64 extra field missing');
+}
+
+/**
+ * Inflate a deflated zip entry, failing if it expands past its declared size
+ */
+async function inflateEntry(name: string, compressed: Buffer, uncompressedSize: number): Promise<Buffer> {
+  try {
+    return await inflateRaw(compressed, { maxOutputLength: Math.max(uncompressedSize, 1) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`Corrupt zip archive: entry ${name} inflates past its declared ${uncompressedSize} bytes`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Extract a zip archive (stored and deflated entries, including zip64)
+ */
+async function extractZip(archivePath: string, target: string): Promise<string | undefined> {
+  const handle = await fs.promises.open(archivePath, 'r');
+
+  try {
+    const { size } = await handle.stat();
+    const read = async (position: number, length: number): Promise<Buffer> => {
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, position);
+      return buffer;
+    };
+
+    // End of central directory record: fixed 22 bytes plus a comment of up to 64KB
+    const tailLength = Math.min(size, 22 + 0xffff);
+    const tail = await read(size - tailLength, tailLength);
+    const signature = Buffer.alloc(4);
+    signature.writeUInt32LE(ZIP_EOCD);
+    const eocd = tail.lastIndexOf(signature);
+    if (eocd === -1) {
+      throw new Error('Not a zip archive: end of central directory not found');
+    }
+
+    let entryCount = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+    const comment = tail.toString('utf-8', eocd + 22, eocd + 22 + tail.readUInt16LE(eocd + 20)).trim();
+
+    // Zip64: the real values are in the zip64 end record, found through the
+    // locator just before the end of central directory record
+    if (eocd >= 20 && tail.readUInt32LE(eocd - 20) === ZIP64_EOCD_LOCATOR) {
+      const record = await read(Number(tail.readBigUInt64LE(eocd - 20 + 8)), 56);
+      if (record.readUInt32LE(0) !== ZIP64_EOCD) {
+        throw new Error('Corrupt zip archive: zip64 end of central directory not found');
+      }
+      entryCount = Number(record.readBigUInt64LE(32));
+      directorySize = Number(record.readBigUInt64LE(40));
+      directoryOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    if (entryCount > MAX_ENTRIES) {
+      throw new Error(`Archive holds more than ${MAX_ENTRIES} entries (SENTINEL_ARCHIVE_MAX_ENTRIES)`);
+    }
+    if (directoryOffset + directorySize > size) {
+      throw new Error('Corrupt zip archive: central directory past the end of the file');
+    }
+
+    const directory = await read(directoryOffset, directorySize);
+    const budget = new ExtractionBudget();
+    let offset = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== ZIP_CENTRAL_ENTRY) {
+        throw new Error('Corrupt zip archive: bad central directory entry');
+      }
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+      let sizes = {
+        uncompressedSize: directory.readUInt32LE(offset + 24),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localOffset: directory.readUInt32LE(offset + 42),
+      };
+      if (Object.values(sizes).includes(ZIP64_MARKER)) {
+        const extraStart = offset + 46 + nameLength;
+        sizes = readZip64Extra(directory.subarray(extraStart, extraStart + extraLength), sizes);
+      }
+      const { uncompressedSize, compressedSize, localOffset } = sizes;
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) {
+        budget.add(name, 0);
+        await writeEntry(target, name, null);
+        continue;
+      }
+      if (flags & 0x1) {
+        log.warning(`Skipping encrypted zip entry: ${name}`);
+        continue;
+      }
+
+      // Checked against the declared size before reading; inflating stops at
+      // that size, so an entry cannot expand past what was counted
+      budget.add(name, method === 0 ? compressedSize : uncompressedSize);
+      const localHeader = await read(localOffset, 30);
+      const dataOffset =
+        localOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+      if (dataOffset + compressedSize > size) {
+        throw new Error(`Corrupt zip archive: entry ${name} runs past the end of the file`);
+      }
+      const compressed = await read(dataOffset, compressedSize);
+
+      if (method === 0) {
+        await writeEntry(target, name, compressed);
+      } else if (method === 8) {
+        await writeEntry(target, name, await inflateEntry(name, compressed, uncompressedSize));
+      } else {
+        log.warning(`Skipping zip entry with unsupported compression method ${method}: ${name}`);
+      }
+    }
+
+    return COMMIT_SHA_PATTERN.test(comment) ? comment : undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Use a single top-level directory as the repository root
+ */
+async function findRoot(directory: string): Promise<string> {
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return entries[0].name;
+  }
+  return '';
+}
+
+/**
+ * This process's private extraction directory, created on first use
+ * mkdtemp makes it readable by this user only, so no other process can plant
+ * or change the files read from it.
+ */
+function getExtractionRoot(): string {
+  if (!extractionRoot) {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-solutions-mcp-archives-'));
+    process.once('exit', () => fs.rmSync(directory, { recursive: true, force: true }));
+    extractionRoot = directory;
+  }
+  return extractionRoot;
+}
+
+/**
+ * Extract an archive (or reuse this process's earlier extraction) and return its root
+ */
+export async function extractArchive(archivePath: string): Promise<ExtractedArchive> {
+  const resolved = path.resolve(archivePath);
+  const stats = await fs.promises.stat(resolved);
+  const key = createHash('sha256')
+    .update(`${resolved}:${stats.size}:${stats.mtimeMs}`)
+    .digest('hex')
+    .substring(0, 16);
+
+  let extraction = extractions.get(key);
+  if (!extraction) {
+    extraction = extract(resolved, path.join(getExtractionRoot(), key));
+    extractions.set(key, extraction);
+    // A failed extraction is retried by the next call
+    extraction.catch(() => extractions.delete(key));
+  }
+  return extraction;
+}
+
+async function extract(resolved: string, directory: string): Promise<ExtractedArchive> {
+  log.info(`Extracting ${resolved}...`);
+  await fs.promises.rm(directory, { recursive: true, force: true });
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  try {
+    let commitSha: string | undefined;
+    if (/\.zip$/i.test(resolved)) {
+      commitSha = await extractZip(resolved, directory);
+    } else if (/\.(tar\.gz|tgz)$/i.test(resolved)) {
+      commitSha = await extractTar(resolved, directory, true);
+    } else if (/\.tar$/i.test(resolved)) {
+      commitSha = await extractTar(resolved, directory, false);
+    } else {
+      throw new Error(`Unsupported archive format: ${resolved} (expected .zip, .tar.gz, .tgz or .tar)`);
+    }
+
+    return { root: path.join(directory, await findRoot(directory)), commitSha };
+  } catch (error) {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+    throw error;
+  }
+}
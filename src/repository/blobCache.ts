@@ -0,0 +1,243 @@
+/**
+ * Persistent on-disk cache of repository file contents keyed by git blob SHA
+ *
+ * A blob SHA identifies file content exactly, so entries never go stale: a
+ * rescan after an upstream change only downloads blobs whose SHA changed.
+ * The cache is capped in size and evicts least recently used blobs first.
+ *
+ * Configuration:
+ * - SENTINEL_CACHE_DIR: cache directory (default: ~/.cache/sentinel-solutions-mcp/blobs)
+ * - SENTINEL_CACHE_MAX_MB: size cap in megabytes (default: 512, 0 disables the cache)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('blobCache');
+
+const BLOB_SHA_PATTERN = /^[0-9a-f]{40}$/;
+const SHARD_PATTERN = /^[0-9a-f]{2}$/;
+// Blobs and the temporary files of interrupted writes (see set)
+const CACHE_FILE_PATTERN = /^[0-9a-f]{40}(\.\d+\.tmp)?$/;
+
+export interface BlobCacheConfig {
+  directory: string;
+  maxBytes: number;
+}
+
+export const DEFAULT_BLOB_CACHE_CONFIG: BlobCacheConfig = {
+  directory:
+    process.env.SENTINEL_CACHE_DIR ||
+    path.join(
+      process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'),
+      'sentinel-solutions-mcp',
+      'blobs'
+    ),
+  maxBytes: Number(process.env.SENTINEL_CACHE_MAX_MB ?? 512) * 1024 * 1024,
+};
+
+export interface BlobCacheStats {
+  directory: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+/**
+ * Git blob SHA-1 of file content ("blob <size>\0<content>")
+ */
+export function gitBlobSha(content: Buffer): string {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+export class BlobCache {
+  private config: BlobCacheConfig;
+  // Insertion order is access order: first entry is least recently used
+  private entries: Map<string, number> | null = null;
+  private loading: Promise<Map<string, number>> | null = null;
+  private totalBytes = 0;
+
+  constructor(config?: Partial<BlobCacheConfig>) {
+    this.config = {
+      ...DEFAULT_BLOB_CACHE_CONFIG,
+      ...config,
+    };
+  }
+
+  /**
+   * False when the size cap is 0 (cache disabled)
+   */
+  get enabled(): boolean {
+    return this.config.maxBytes > 0;
+  }
+
+  private blobPath(sha: string): string {
+    return path.join(this.config.directory, sha.substring(0, 2), sha);
+  }
+
+  /**
+   * Index existing blobs once, oldest access (mtime) first
+   */
+  private load(): Promise<Map<string, number>> {
+    if (this.entries) {
+      return Promise.resolve(this.entries);
+    }
+    if (!this.loading) {
+      this.loading = this.scan().then((entries) => {
+        this.entries = entries;
+        this.loading = null;
+        return entries;
+      });
+    }
+    return this.loading;
+  }
+
+  private async scan(): Promise<Map<string, number>> {
+    const found: Array<{ sha: string; size: number; mtime: number }> = [];
+
+    const prefixes = await fs.promises.readdir(this.config.directory).catch(() => [] as string[]);
+    for (const prefix of prefixes) {
+      const dir = path.join(this.config.directory, prefix);
+      const names = await fs.promises.readdir(dir).catch(() => [] as string[]);
+      for (const name of names) {
+        if (!BLOB_SHA_PATTERN.test(name)) {
+          continue; // Interrupted writes and foreign files
+        }
+        try {
+          const stats = await fs.promises.stat(path.join(dir, name));
+          found.push({ sha: name, size: stats.size, mtime: stats.mtimeMs });
+        } catch {
+          // Removed concurrently
+        }
+      }
+    }
+
+    found.sort((a, b) => a.mtime - b.mtime);
+    this.totalBytes = found.reduce((sum, entry) => sum + entry.size, 0);
+    return new Map(found.map((entry) => [entry.sha, entry.size]));
+  }
+
+  /**
+   * Get cached content for a blob SHA, or null on a miss
+   */
+  async get(sha: string): Promise<string | null> {
+    if (!this.enabled || !BLOB_SHA_PATTERN.test(sha)) {
+      return null;
+    }
+
+    const entries = await this.load();
+    const size = entries.get(sha);
+    if (size === undefined) {
+      return null;
+    }
+
+    const blobPath = this.blobPath(sha);
+    try {
+      const content = await fs.promises.readFile(blobPath);
+      // Mark as most recently used, in memory and (for later runs) on disk
+      entries.delete(sha);
+      entries.set(sha, size);
+      const now = new Date();
+      fs.promises.utimes(blobPath, now, now).catch(() => undefined);
+      return new TextDecoder().decode(content);
+    } catch {
+      entries.delete(sha);
+      this.totalBytes -= size;
+      return null;
+    }
+  }
+
+  /**
+   * Store content for a blob SHA, evicting least recently used blobs over the cap
+   */
+  async set(sha: string, content: Buffer): Promise<void> {
+    if (!this.enabled || !BLOB_SHA_PATTERN.test(sha) || content.length > this.config.maxBytes) {
+      return;
+    }
+
+    const entries = await this.load();
+    if (entries.has(sha)) {
+      return;
+    }
+
+    const blobPath = this.blobPath(sha);
+    const tempPath = `${blobPath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(blobPath), { recursive: true });
+      await fs.promises.writeFile(tempPath, content);
+      await fs.promises.rename(tempPath, blobPath);
+    } catch (error) {
+      log.warning(`Failed to cache blob ${sha}`, error);
+      await fs.promises.rm(tempPath, { force: true });
+      return;
+    }
+
+    entries.set(sha, content.length);
+    this.totalBytes += content.length;
+    await this.evict(entries);
+  }
+
+  private async evict(entries: Map<string, number>): Promise<void> {
+    for (const [sha, size] of entries) {
+      if (this.totalBytes <= this.config.maxBytes) {
+        break;
+      }
+      entries.delete(sha);
+      this.totalBytes -= size;
+      await fs.promises.rm(this.blobPath(sha), { force: true });
+      log.debug(`Evicted blob ${sha} (${size} bytes)`);
+    }
+  }
+
+  /**
+   * Current cache size
+   */
+  async getStats(): Promise<BlobCacheStats> {
+    const entries = this.enabled ? await this.load() : new Map();
+    return {
+      directory: this.config.directory,
+      entries: entries.size,
+      bytes: this.enabled ? this.totalBytes : 0,
+      maxBytes: this.config.maxBytes,
+    };
+  }
+
+  /**
+   * Delete every cached blob and return what was removed
+   * Only the shard directories and files the cache writes are removed, so a
+   * cache directory shared with other files is left otherwise untouched.
+   */
+  async clear(): Promise<BlobCacheStats> {
+    const stats = await this.getStats();
+
+    const prefixes = await fs.promises.readdir(this.config.directory).catch(() => [] as string[]);
+    for (const prefix of prefixes.filter((name) => SHARD_PATTERN.test(name))) {
+      const dir = path.join(this.config.directory, prefix);
+      const names = await fs.promises.readdir(dir).catch(() => [] as string[]);
+      for (const name of names.filter((name) => CACHE_FILE_PATTERN.test(name))) {
+        await fs.promises.rm(path.join(dir, name), { force: true });
+      }
+      // Fails, keeping the directory, if anything else is in it
+      await fs.promises.rmdir(dir).catch(() => undefined);
+    }
+
+    this.entries = new Map();
+    this.totalBytes = 0;
+    return stats;
+  }
+}
+
+let sharedCache: BlobCache | null = null;
+
+/**
+ * Process-wide blob cache shared by all GitHub clients
+ */
+export function getBlobCache(): BlobCache {
+  if (!sharedCache) {
+    sharedCache = new BlobCache();
+  }
+  return sharedCache;
+}
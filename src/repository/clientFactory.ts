@@ -0,0 +1,124 @@
+/**
+ * Content source selection
+ * - github: fetched through the GitHub API (default)
+ * - local: a checkout on disk (repository_path argument or SENTINEL_REPO_PATH)
+ * - archive: a .zip or .tar.gz snapshot, extracted on first use
+ * The source type can be given explicitly (repository_type or SENTINEL_REPO_TYPE);
+ * otherwise it is inferred from the path.
+ * Repositories other than the configured one and its overlays are checked
+ * against the access policy - see accessPolicy.ts.
+ */
+
+import {
+  RepositoryConfig,
+  DEFAULT_REPOSITORY_CONFIG,
+  ContentSource,
+  ContentSourceType,
+} from '../types/repository.js';
+import { GitHubClient } from './githubClient.js';
+import { LocalRepositoryClient } from './localClient.js';
+import { ArchiveRepositoryClient } from './archiveClient.js';
+import { ARCHIVE_PATTERN } from './archiveExtractor.js';
+import { authorizeRepository, RepositoryAccess } from './accessPolicy.js';
+import { getOverlaySources } from './overlays.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('clientFactory');
+
+/**
+ * Infer the source type from a path: archives by extension, otherwise a checkout
+ */
+function inferSourceType(localPath?: string): ContentSourceType {
+  if (!localPath) {
+    return 'github';
+  }
+  return ARCHIVE_PATTERN.test(localPath) ? 'archive' : 'local';
+}
+
+/**
+ * Defined fields of a configuration, with the source type and path it resolves to
+ */
+function resolveConfig(config: Partial<RepositoryConfig>) {
+  const defined = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as Partial<RepositoryConfig>;
+
+  const localPath = defined.localPath || DEFAULT_REPOSITORY_CONFIG.localPath;
+  // A path passed with the request is classified by itself, not by the default type
+  const sourceType =
+    defined.sourceType ||
+    (defined.localPath ? inferSourceType(defined.localPath) : undefined) ||
+    DEFAULT_REPOSITORY_CONFIG.sourceType ||
+    inferSourceType(localPath);
+
+  return { defined, localPath, sourceType };
+}
+
+/**
+ * Identity of the repository a configuration reads, for comparing configurations
+ */
+export function repositoryKey(config: Partial<RepositoryConfig>): string {
+  const { defined, localPath, sourceType } = resolveConfig(config);
+  if (sourceType !== 'github') {
+    return `${sourceType}:${localPath}`;
+  }
+  const { owner, name, branch, ref, apiUrl } = { ...DEFAULT_REPOSITORY_CONFIG, ...defined };
+  return `github:${apiUrl || ''}/${owner}/${name}@${ref || branch}`.toLowerCase();
+}
+
+/**
+ * Whether a configuration reads the server's own repository or an overlay
+ */
+function isConfiguredRepository(config: Partial<RepositoryConfig>): boolean {
+  const key = repositoryKey(config);
+  return (
+    key === repositoryKey({}) ||
+    getOverlaySources().some((overlay) => key === repositoryKey(overlay.repository))
+  );
+}
+
+/**
+ * Check a configuration against the access policy
+ * Throws for a repository the policy does not allow.
+ */
+export function authorizeContentSource(config: Partial<RepositoryConfig>): RepositoryAccess {
+  const { defined, localPath, sourceType } = resolveConfig(config);
+  return authorizeRepository(
+    { ...DEFAULT_REPOSITORY_CONFIG, ...defined, localPath, sourceType },
+    isConfiguredRepository(config)
+  );
+}
+
+/**
+ * Create the content source for a repository configuration
+ * Unset (undefined) fields fall back to the defaults rather than overriding them
+ */
+export function createContentSource(config: Partial<RepositoryConfig> = {}): ContentSource {
+  const { defined, localPath, sourceType } = resolveConfig(config);
+  const access = authorizeContentSource(config);
+
+  if (defined.ref && sourceType !== 'github') {
+    log.resultWarning(
+      `repository_ref is ignored for ${sourceType} sources - they always read the files on disk`
+    );
+  }
+
+  switch (sourceType) {
+    case 'github':
+      return new GitHubClient({ ...defined, ...access, sourceType, localPath: undefined });
+    case 'local':
+    case 'archive':
+      if (!localPath) {
+        throw new Error(
+          `repository_path (or SENTINEL_REPO_PATH) is required for the ${sourceType} source type`
+        );
+      }
+      return sourceType === 'local'
+        ? new LocalRepositoryClient({ ...defined, sourceType, localPath })
+        : new ArchiveRepositoryClient({ ...defined, localPath });
+    default:
+      throw new Error(
+        `Unknown repository source type: ${sourceType} (expected github, local or archive)`
+      );
+  }
+}
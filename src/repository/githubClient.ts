@@ -4,30 +4,219 @@
  * Supports any GitHub repository containing Sentinel solutions
  */
 
-import { RepositoryConfig, DEFAULT_REPOSITORY_CONFIG } from '../types/repository.js';
+import {
+  RepositoryConfig,
+  DEFAULT_REPOSITORY_CONFIG,
+  ContentSource,
+  TreeItem,
+  RepositoryTree,
+} from '../types/repository.js';
+import { createLogger } from '../utils/logger.js';
+import { abortRequest, createLimiter, shareWork, sleep, FETCH_CONCURRENCY, SharedWork } from '../utils/concurrency.js';
+import { configureNetwork } from '../utils/network.js';
+import { getBlobCache, gitBlobSha } from './blobCache.js';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com';
+const GITHUB_WEB_BASE = 'https://github.com';
 
-export interface GitHubTreeItem {
-  path: string;
-  mode: string;
-  type: 'blob' | 'tree';
-  sha: string;
-  size?: number;
-  url: string;
+// Retries for rate limits, 5xx responses and network errors
+const MAX_RETRIES = Number(process.env.SENTINEL_GITHUB_MAX_RETRIES ?? 4);
+// Longest wait for a rate limit to reset before failing the request
+const MAX_WAIT_MS = Number(process.env.SENTINEL_GITHUB_MAX_WAIT_SECONDS ?? 60) * 1000;
+const BASE_BACKOFF_MS = 1000;
+// GitHub asks clients to wait at least a minute after a secondary rate limit without Retry-After
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+// The compare API lists at most this many changed files
+const COMPARE_MAX_FILES = 300;
+
+const log = createLogger('githubClient');
+
+/**
+ * Quota for one GitHub API resource (core, search, graphql, ...)
+ */
+export interface RateLimitQuota {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;
 }
 
-export interface GitHubTree {
-  sha: string;
-  url: string;
-  tree: GitHubTreeItem[];
-  truncated: boolean;
+export interface RateLimitStatus {
+  authenticated: boolean;
+  /** Where the numbers come from: the /rate_limit endpoint or the last response headers */
+  source: 'api' | 'headers';
+  resources: Record<string, RateLimitQuota>;
+  concurrency: number;
+  /** Set while requests are paused after a secondary rate limit */
+  pausedUntil?: string;
 }
 
-export class GitHubClient {
+// Shared by all clients: the quota belongs to the token, not the client
+const requestLimiter = createLimiter(FETCH_CONCURRENCY);
+const observedQuota: Record<string, RateLimitQuota> = {};
+let pausedUntil = 0;
+
+/**
+ * Record X-RateLimit-* headers from an API response
+ */
+function recordRateLimit(headers: Headers): void {
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (remaining === null || reset === null) {
+    return;
+  }
+
+  observedQuota[headers.get('x-ratelimit-resource') || 'core'] = {
+    limit: Number(headers.get('x-ratelimit-limit') || 0),
+    remaining: Number(remaining),
+    used: Number(headers.get('x-ratelimit-used') || 0),
+    resetAt: new Date(Number(reset) * 1000).toISOString(),
+  };
+}
+
+/**
+ * API, raw file and web base URLs of a GitHub instance
+ */
+interface GitHubEndpoints {
+  api: string;
+  raw: string;
+  web: string;
+}
+
+/**
+ * Resolve base URLs from the configured API URL
+ * GitHub Enterprise Server serves its API at https://HOST/api/v3 and raw
+ * files at https://HOST/raw; an api.HOST API is browsed at https://HOST.
+ */
+function resolveEndpoints(config: RepositoryConfig): GitHubEndpoints {
+  const api = (config.apiUrl || GITHUB_API_BASE).replace(/\/+$/, '');
+  if (api === GITHUB_API_BASE) {
+    return { api, raw: (config.rawUrl || GITHUB_RAW_BASE).replace(/\/+$/, ''), web: GITHUB_WEB_BASE };
+  }
+
+  const web = /\/api\/v3$/.test(api) ? api.replace(/\/api\/v3$/, '') : api.replace('://api.', '://');
+  return { api, raw: (config.rawUrl || `${web}/raw`).replace(/\/+$/, ''), web };
+}
+
+/**
+ * Token for a GitHub instance
+ * SENTINEL_GITHUB_TOKENS maps hosts to tokens, e.g. {"ghe.example.com": "..."};
+ * MCP_GITHUB_TOKEN / GITHUB_TOKEN are only sent to the default API host, so
+ * a token is never leaked to another instance.
+ */
+function resolveToken(endpoints: GitHubEndpoints): string | undefined {
+  const tokens = parseTokenMap(process.env.SENTINEL_GITHUB_TOKENS);
+  const hostToken = tokens[new URL(endpoints.api).host] || tokens[new URL(endpoints.web).host];
+  if (hostToken) {
+    return hostToken;
+  }
+
+  const defaultApi = (DEFAULT_REPOSITORY_CONFIG.apiUrl || GITHUB_API_BASE).replace(/\/+$/, '');
+  if (endpoints.api !== defaultApi) {
+    return undefined;
+  }
+  // Check MCP_GITHUB_TOKEN first, then fall back to GITHUB_TOKEN
+  return process.env.MCP_GITHUB_TOKEN || process.env.GITHUB_TOKEN;
+}
+
+/**
+ * Parse the SENTINEL_GITHUB_TOKENS host-to-token map
+ */
+function parseTokenMap(value?: string): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid SENTINEL_GITHUB_TOKENS: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) ||
+      Object.values(parsed).some((token) => typeof token !== 'string')) {
+    throw new Error('Invalid SENTINEL_GITHUB_TOKENS: expected a JSON object of host to token');
+  }
+  return parsed as Record<string, string>;
+}
+
+/**
+ * Exponential backoff with jitter: ~1s, 2s, 4s, 8s ...
+ */
+function backoffDelay(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.floor(Math.random() * BASE_BACKOFF_MS);
+}
+
+/**
+ * Milliseconds a Retry-After header asks for: delay seconds or an HTTP date
+ * Null when it is neither.
+ */
+function parseRetryAfter(value: string): number | null {
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * How long to wait before retrying a response, or null if it should not be retried
+ * Throws when a rate limit will not lift within MAX_WAIT_MS.
+ */
+async function retryDelay(response: Response, attempt: number): Promise<number | null> {
+  if (response.status >= 500) {
+    return backoffDelay(attempt);
+  }
+  if (response.status !== 403 && response.status !== 429) {
+    return null;
+  }
+
+  // Secondary rate limits usually send Retry-After
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter !== null) {
+    const wait = parseRetryAfter(retryAfter) ?? SECONDARY_LIMIT_WAIT_MS;
+    if (wait > MAX_WAIT_MS) {
+      throw new Error(
+        `GitHub API rate limited for ${Math.ceil(wait / 1000)}s (Retry-After), longer than the ${MAX_WAIT_MS / 1000}s allowed (SENTINEL_GITHUB_MAX_WAIT_SECONDS).`
+      );
+    }
+    return wait;
+  }
+
+  // Primary rate limit: quota exhausted until X-RateLimit-Reset
+  if (response.headers.get('x-ratelimit-remaining') === '0') {
+    const resetAt = Number(response.headers.get('x-ratelimit-reset') || 0) * 1000;
+    const wait = Math.max(resetAt - Date.now(), 0) + 1000;
+    if (wait > MAX_WAIT_MS) {
+      throw new Error(
+        `GitHub API rate limit exhausted until ${new Date(resetAt).toISOString()}. ` +
+          'Set MCP_GITHUB_TOKEN or GITHUB_TOKEN for a higher limit.'
+      );
+    }
+    return wait;
+  }
+
+  // Secondary rate limit without Retry-After; other 403s are permission errors
+  const body = await response.clone().text().catch(() => '');
+  if (response.status === 429 || /secondary rate limit|abuse/i.test(body)) {
+    return SECONDARY_LIMIT_WAIT_MS;
+  }
+  return null;
+}
+
+export class GitHubClient implements ContentSource {
   private cache: Map<string, any> = new Map();
+  // In-flight file reads, so concurrent callers share one download
+  private pending: Map<string, SharedWork<string>> = new Map();
+  // Commit all reads are pinned to, resolved on first use
+  private pinnedCommit: SharedWork<string> | null = null;
+  // Blob SHA of each file seen in a tree or directory listing, for the disk cache
+  private blobShas: Map<string, string> = new Map();
+  // Files downloaded, checked against config.maxFiles
+  private filesFetched = 0;
   private config: RepositoryConfig;
+  private endpoints: GitHubEndpoints;
   private token?: string;
 
   constructor(config?: Partial<RepositoryConfig>) {
@@ -35,23 +224,119 @@ export class GitHubClient {
       ...DEFAULT_REPOSITORY_CONFIG,
       ...config,
     };
-    // Check MCP_GITHUB_TOKEN first, then fall back to GITHUB_TOKEN
-    this.token = process.env.MCP_GITHUB_TOKEN || process.env.GITHUB_TOKEN;
+    // A raw URL configured for the default instance does not apply to another API URL
+    if (config?.apiUrl && !config.rawUrl) {
+      this.config.rawUrl = undefined;
+    }
+    this.endpoints = resolveEndpoints(this.config);
+    this.token = this.config.auth === 'anonymous' ? undefined : resolveToken(this.endpoints);
+    configureNetwork();
   }
 
   /**
    * Get fetch headers with optional authentication
    */
   private getFetchHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
+    return {
       'Accept': 'application/vnd.github.v3+json',
+      ...this.getAuthHeaders(),
     };
+  }
 
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
+  /**
+   * Authentication header alone, for raw file requests (private repositories)
+   */
+  private getAuthHeaders(): Record<string, string> {
+    return this.token ? { 'Authorization': `Bearer ${this.token}` } : {};
+  }
+
+  /**
+   * Fetch through the shared pool, retrying transient failures:
+   * - primary rate limit (X-RateLimit-Remaining: 0): wait for X-RateLimit-Reset
+   * - secondary rate limit (Retry-After, 429): pause all requests, then retry
+   * - 5xx responses and network errors: exponential backoff
+   * The final response is returned as-is for the caller to report.
+   */
+  private async request(url: string, init: { headers?: Record<string, string>; signal?: AbortSignal } = {}): Promise<Response> {
+    const { signal } = init;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await requestLimiter(async () => {
+          if (pausedUntil > Date.now()) {
+            await sleep(pausedUntil - Date.now(), signal);
+          }
+          return fetch(url, init);
+        });
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (attempt >= MAX_RETRIES) {
+          throw error;
+        }
+        const wait = backoffDelay(attempt);
+        log.warning(`Request failed, retrying in ${wait}ms: ${url}`, error);
+        await sleep(wait, signal);
+        continue;
+      }
+
+      recordRateLimit(response.headers);
+
+      const wait = attempt < MAX_RETRIES ? await retryDelay(response, attempt) : null;
+      if (wait === null) {
+        return response;
+      }
+
+      if (response.status === 403 || response.status === 429) {
+        pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+        log.warning(`GitHub rate limit hit (HTTP ${response.status}), pausing requests for ${Math.ceil(wait / 1000)}s`);
+      } else {
+        log.warning(`HTTP ${response.status} from ${url}, retrying in ${wait}ms`);
+      }
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(wait, signal);
     }
+  }
+
+  /**
+   * Get the remaining API quota
+   * Uses the /rate_limit endpoint (which does not count against the quota),
+   * falling back to the last observed response headers when it is unreachable.
+   */
+  async getRateLimitStatus(signal?: AbortSignal): Promise<RateLimitStatus> {
+    const status = {
+      authenticated: !!this.token,
+      concurrency: FETCH_CONCURRENCY,
+      pausedUntil: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : undefined,
+    };
+
+    try {
+      const response = await fetch(`${this.endpoints.api}/rate_limit`, { headers: this.getFetchHeaders(), signal });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch rate limit: ${response.statusText}`);
+      }
 
-    return headers;
+      const data = (await response.json()) as {
+        resources: Record<string, { limit: number; remaining: number; used: number; reset: number }>;
+      };
+      const resources: Record<string, RateLimitQuota> = {};
+      for (const [name, quota] of Object.entries(data.resources)) {
+        resources[name] = {
+          limit: quota.limit,
+          remaining: quota.remaining,
+          used: quota.used,
+          resetAt: new Date(quota.reset * 1000).toISOString(),
+        };
+      }
+      return { ...status, source: 'api', resources };
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (Object.keys(observedQuota).length === 0) {
+        throw new Error(`Unable to get GitHub rate limit status: ${error instanceof Error ? error.message : error}`);
+      }
+      log.resultWarning('GitHub /rate_limit unavailable - showing quota from the last API response');
+      return { ...status, source: 'headers', resources: { ...observedQuota } };
+    }
   }
 
   /**
@@ -62,13 +347,58 @@ export class GitHubClient {
   }
 
   /**
-   * Get the latest commit SHA for the repository
+   * Branch, tag or SHA reads are resolved against
+   */
+  private getRef(): string {
+    return this.config.ref || this.config.branch;
+  }
+
+  /**
+   * Get the commit SHA all reads are pinned to
+   * Resolved from the ref (or branch head) once, so a scan never mixes two
+   * snapshots if upstream moves while it runs. clearCache() re-resolves.
+   */
+  async getLatestCommitSha(signal?: AbortSignal): Promise<string> {
+    if (!this.pinnedCommit || this.pinnedCommit.signal.aborted) {
+      this.pinnedCommit = shareWork((resolveSignal) => this.resolveCommit(resolveSignal));
+    }
+
+    const pinned = this.pinnedCommit;
+    try {
+      const sha = await pinned.join(signal);
+      if (sha === 'unknown' && this.pinnedCommit === pinned) {
+        this.pinnedCommit = null; // Try again on the next read
+      }
+      return sha;
+    } catch (error) {
+      if (this.pinnedCommit === pinned && !signal?.aborted) {
+        this.pinnedCommit = null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the configured ref to a commit SHA
    */
-  async getLatestCommitSha(): Promise<string> {
-    const url = `${GITHUB_API_BASE}/repos/${this.config.owner}/${this.config.name}/commits/${this.config.branch}`;
+  private async resolveCommit(signal?: AbortSignal): Promise<string> {
+    const url = `${this.endpoints.api}/repos/${this.config.owner}/${this.config.name}/commits/${this.getRef()}`;
+
+    let response: Response;
+    try {
+      response = await this.request(url, { headers: this.getFetchHeaders(), signal });
+    } catch (error) {
+      signal?.throwIfAborted();
+      log.warning('Failed to get latest commit SHA', error);
+      return 'unknown';
+    }
+
+    // An explicit ref that does not exist is an error, not a reason to read the branch head
+    if (this.config.ref && (response.status === 404 || response.status === 422)) {
+      throw new Error(`Repository ref not found: ${this.config.ref}`);
+    }
 
     try {
-      const response = await fetch(url, { headers: this.getFetchHeaders() });
       if (!response.ok) {
         throw new Error(`Failed to fetch commit: ${response.statusText}`);
       }
@@ -76,57 +406,172 @@ export class GitHubClient {
       const data = (await response.json()) as { sha: string };
       return data.sha;
     } catch (error) {
-      console.error('Warning: Failed to get latest commit SHA:', error);
+      // Cancellation must propagate rather than degrade to 'unknown'
+      signal?.throwIfAborted();
+      log.warning('Failed to get latest commit SHA', error);
       return 'unknown';
     }
   }
 
+  /**
+   * Paths changed between a base commit and the pinned commit, from the compare API
+   * Null when the comparison fails, when the base is not an ancestor (history
+   * was rewritten) or when it lists the most files GitHub returns, which may
+   * be a truncated list.
+   */
+  async getChangedPaths(baseCommit: string, signal?: AbortSignal): Promise<string[] | null> {
+    const headCommit = await this.getLatestCommitSha(signal);
+    if (headCommit === 'unknown') {
+      return null;
+    }
+    if (headCommit === baseCommit) {
+      return [];
+    }
+
+    const url = `${this.endpoints.api}/repos/${this.config.owner}/${this.config.name}/compare/${baseCommit}...${headCommit}`;
+
+    try {
+      const response = await this.request(url, { headers: this.getFetchHeaders(), signal });
+      if (!response.ok) {
+        throw new Error(`Failed to compare commits: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as {
+        status: string;
+        files?: Array<{ filename: string; previous_filename?: string }>;
+      };
+      if (data.status !== 'ahead' && data.status !== 'identical') {
+        log.warning(`Commit ${baseCommit} is ${data.status} of ${headCommit} - cannot list changes`);
+        return null;
+      }
+
+      const files = data.files || [];
+      if (files.length >= COMPARE_MAX_FILES) {
+        log.warning(`More than ${COMPARE_MAX_FILES} files changed since ${baseCommit}`);
+        return null;
+      }
+      return files.flatMap((file) =>
+        file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]
+      );
+    } catch (error) {
+      signal?.throwIfAborted();
+      log.warning(`Failed to list changes since ${baseCommit}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Pinned commit for file and directory reads, or the ref itself if it cannot be resolved
+   */
+  private async getReadRef(signal?: AbortSignal): Promise<string> {
+    const sha = await this.getLatestCommitSha(signal);
+    return sha !== 'unknown' ? sha : this.getRef();
+  }
+
   /**
    * Get file content from GitHub
    */
-  async getFileContent(path: string): Promise<string> {
+  async getFileContent(path: string, signal?: AbortSignal): Promise<string> {
     const cacheKey = `file:${path}`;
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey);
     }
 
-    const url = `${GITHUB_RAW_BASE}/${this.config.owner}/${this.config.name}/${this.config.branch}/${path}`;
+    // The download is shared, so it is cancelled only when every caller is
+    let pending = this.pending.get(path);
+    if (!pending || pending.signal.aborted) {
+      const download = shareWork((downloadSignal) =>
+        this.downloadFile(path, downloadSignal).finally(() => {
+          if (this.pending.get(path) === download) {
+            this.pending.delete(path);
+          }
+        })
+      );
+      pending = download;
+      this.pending.set(path, download);
+    }
+    return pending.join(signal);
+  }
+
+  /**
+   * Read a file from the disk blob cache or the raw file host
+   */
+  private async downloadFile(path: string, signal?: AbortSignal): Promise<string> {
+    const cacheKey = `file:${path}`;
+
+    // Unchanged blobs are served from the disk cache across restarts
+    const sha = this.blobShas.get(path);
+    if (sha) {
+      const cached = await getBlobCache().get(sha);
+      if (cached !== null) {
+        this.cache.set(cacheKey, cached);
+        return cached;
+      }
+    }
+
+    this.countFile();
+    const url = `${this.endpoints.raw}/${this.config.owner}/${this.config.name}/${await this.getReadRef(signal)}/${path}`;
 
     try {
-      const response = await fetch(url);
+      const response = await this.request(url, { headers: this.getAuthHeaders(), signal });
       if (!response.ok) {
         throw new Error(`Failed to fetch ${path}: ${response.statusText}`);
       }
 
-      const content = await response.text();
+      const body = Buffer.from(await response.arrayBuffer());
+      const content = new TextDecoder().decode(body);
+      // Only cache content that matches the blob SHA from the tree
+      if (sha && gitBlobSha(body) === sha) {
+        await getBlobCache().set(sha, body);
+      }
+
       this.cache.set(cacheKey, content);
       return content;
     } catch (error) {
+      signal?.throwIfAborted();
       throw new Error(`Error fetching ${path}: ${error}`);
     }
   }
 
+  /**
+   * Count a download against config.maxFiles, failing the request past the limit
+   */
+  private countFile(): void {
+    const { maxFiles } = this.config;
+    if (maxFiles === undefined || ++this.filesFetched <= maxFiles) {
+      return;
+    }
+
+    const error = new Error(
+      `File limit exceeded: a request may fetch at most ${maxFiles} files from ${this.config.owner}/${this.config.name} (maxFilesPerRequest in SENTINEL_ACCESS_POLICY)`
+    );
+    abortRequest(error);
+    throw error;
+  }
+
   /**
    * List directory contents
    */
-  async listDirectory(path: string): Promise<GitHubTreeItem[]> {
+  async listDirectory(path: string, signal?: AbortSignal): Promise<TreeItem[]> {
     const cacheKey = `dir:${path}`;
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey);
     }
 
-    const url = `${GITHUB_API_BASE}/repos/${this.config.owner}/${this.config.name}/contents/${path}?ref=${this.config.branch}`;
+    const url = `${this.endpoints.api}/repos/${this.config.owner}/${this.config.name}/contents/${path}?ref=${await this.getReadRef(signal)}`;
 
     try {
-      const response = await fetch(url, { headers: this.getFetchHeaders() });
+      const response = await this.request(url, { headers: this.getFetchHeaders(), signal });
       if (!response.ok) {
         throw new Error(`Failed to list ${path}: ${response.statusText}`);
       }
 
-      const items = (await response.json()) as GitHubTreeItem[];
+      const items = (await response.json()) as TreeItem[];
+      this.recordBlobShas(items);
       this.cache.set(cacheKey, items);
       return items;
     } catch (error) {
+      signal?.throwIfAborted();
       throw new Error(`Error listing ${path}: ${error}`);
     }
   }
@@ -134,69 +579,159 @@ export class GitHubClient {
   /**
    * Get full directory tree recursively (for Solutions directory)
    */
-  async getTree(treeSha?: string): Promise<GitHubTree> {
-    // If no treeSha provided, get it from the latest commit
+  async getTree(treeSha?: string, signal?: AbortSignal): Promise<RepositoryTree> {
+    // If no treeSha provided, get it from the pinned commit
     if (!treeSha) {
-      const commitSha = await this.getLatestCommitSha();
-      if (commitSha === 'unknown') {
-        throw new Error('Unable to get latest commit SHA');
-      }
+      treeSha = await this.getRootTreeSha(signal);
+    }
 
-      const commitUrl = `${GITHUB_API_BASE}/repos/${this.config.owner}/${this.config.name}/git/commits/${commitSha}`;
-      const commitResponse = await fetch(commitUrl, { headers: this.getFetchHeaders() });
+    const url = `${this.endpoints.api}/repos/${this.config.owner}/${this.config.name}/git/trees/${treeSha}?recursive=1`;
 
-      if (!commitResponse.ok) {
-        throw new Error(`Failed to fetch commit: ${commitResponse.statusText}`);
+    try {
+      const response = await this.request(url, { headers: this.getFetchHeaders(), signal });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tree: ${response.statusText}`);
       }
 
-      const commitData = (await commitResponse.json()) as { tree: { sha: string } };
+      const tree = (await response.json()) as RepositoryTree;
+      this.recordBlobShas(tree.tree);
+      return tree;
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw new Error(`Error fetching tree: ${error}`);
+    }
+  }
+
+  /**
+   * Get every item below a directory without fetching the whole repository tree
+   * Follows one tree level per path segment to the directory's tree SHA, then
+   * lists that subtree recursively. Cached per directory until clearCache().
+   */
+  async getSubtree(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    const cacheKey = `subtree:${dirPath}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    let treeSha: string | null = await this.getRootTreeSha(signal);
+    for (const segment of dirPath.split('/').filter(Boolean)) {
+      const entries = await this.getTreeEntries(treeSha, signal);
+      treeSha = entries.find((item) => item.path === segment && item.type === 'tree')?.sha ?? null;
+      if (!treeSha) {
+        break; // No such directory
+      }
+    }
 
-      if (!commitData.tree || !commitData.tree.sha) {
-        throw new Error('Invalid commit response: missing tree.sha');
+    let items: TreeItem[] = [];
+    if (treeSha) {
+      const tree = await this.getTree(treeSha, signal);
+      if (tree.truncated) {
+        log.warning(`Tree for ${dirPath} was truncated by GitHub - some files may be missing`);
       }
+      items = tree.tree.map((item) => ({ ...item, path: `${dirPath}/${item.path}` }));
+      this.recordBlobShas(items);
+    }
+
+    this.cache.set(cacheKey, items);
+    return items;
+  }
+
+  /**
+   * Get the root tree SHA of the pinned commit
+   */
+  private async getRootTreeSha(signal?: AbortSignal): Promise<string> {
+    const commitSha = await this.getLatestCommitSha(signal);
+    if (commitSha === 'unknown') {
+      throw new Error('Unable to get latest commit SHA');
+    }
+
+    const cacheKey = `commitTree:${commitSha}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    const commitUrl = `${this.endpoints.api}/repos/${this.config.owner}/${this.config.name}/git/commits/${commitSha}`;
+    const commitResponse = await this.request(commitUrl, { headers: this.getFetchHeaders(), signal });
+
+    if (!commitResponse.ok) {
+      throw new Error(`Failed to fetch commit: ${commitResponse.statusText}`);
+    }
+
+    const commitData = (await commitResponse.json()) as { tree: { sha: string } };
+
+    if (!commitData.tree || !commitData.tree.sha) {
+      throw new Error('Invalid commit response: missing tree.sha');
+    }
 
-      treeSha = commitData.tree.sha;
+    this.cache.set(cacheKey, commitData.tree.sha);
+    return commitData.tree.sha;
+  }
+
+  /**
+   * Get the direct children of a tree (non-recursive), cached by tree SHA
+   */
+  private async getTreeEntries(treeSha: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    const cacheKey = `tree:${treeSha}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
     }
 
-    const url = `${GITHUB_API_BASE}/repos/${this.config.owner}/${this.config.name}/git/trees/${treeSha}?recursive=1`;
+    const url = `${this.endpoints.api}/repos/${this.config.owner}/${this.config.name}/git/trees/${treeSha}`;
 
     try {
-      const response = await fetch(url, { headers: this.getFetchHeaders() });
+      const response = await this.request(url, { headers: this.getFetchHeaders(), signal });
       if (!response.ok) {
         throw new Error(`Failed to fetch tree: ${response.statusText}`);
       }
 
-      return (await response.json()) as GitHubTree;
+      const entries = ((await response.json()) as RepositoryTree).tree;
+      this.cache.set(cacheKey, entries);
+      return entries;
     } catch (error) {
+      signal?.throwIfAborted();
       throw new Error(`Error fetching tree: ${error}`);
     }
   }
 
+  /**
+   * Remember file blob SHAs so getFileContent can use the disk cache
+   * (trees use type 'blob', the contents API uses type 'file')
+   */
+  private recordBlobShas(items: TreeItem[]): void {
+    for (const item of items) {
+      if (item.sha && item.type !== 'tree' && (item.type as string) !== 'dir') {
+        this.blobShas.set(item.path, item.sha);
+      }
+    }
+  }
+
   /**
    * Find all files matching a pattern in the tree
    */
-  filterTreeByPattern(tree: GitHubTree, pattern: RegExp): GitHubTreeItem[] {
+  filterTreeByPattern(tree: RepositoryTree, pattern: RegExp): TreeItem[] {
     return tree.tree.filter((item) => item.type === 'blob' && pattern.test(item.path));
   }
 
   /**
-   * Clear the cache
+   * Clear the in-memory cache (the disk blob cache is kept - use clear_cache)
    */
   clearCache(): void {
     this.cache.clear();
+    this.blobShas.clear();
+    this.pinnedCommit = null;
   }
 
   /**
    * Generate GitHub web URL for a path
    */
-  getGitHubUrl(path: string): string {
-    return `https://github.com/${this.config.owner}/${this.config.name}/tree/${this.config.branch}/${path}`;
+  getDirectoryUrl(path: string): string {
+    return `${this.endpoints.web}/${this.config.owner}/${this.config.name}/tree/${this.getRef()}/${path}`;
   }
 
   /**
    * Generate GitHub blob URL for a file
    */
-  getGitHubBlobUrl(path: string): string {
-    return `https://github.com/${this.config.owner}/${this.config.name}/blob/${this.config.branch}/${path}`;
+  getFileUrl(path: string): string {
+    return `${this.endpoints.web}/${this.config.owner}/${this.config.name}/blob/${this.getRef()}/${path}`;
   }
 }
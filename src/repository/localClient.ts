@@ -0,0 +1,329 @@
+/**
+ * Local filesystem client for a checkout of a Sentinel content repository
+ * ContentSource backed by the filesystem - tree listing walks the directory and
+ * file reads come from disk - so analysis runs with no network access.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { promisify } from 'util';
+import {
+  RepositoryConfig,
+  DEFAULT_REPOSITORY_CONFIG,
+  ContentSource,
+  TreeItem,
+  RepositoryTree,
+} from '../types/repository.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('localClient');
+
+const execFileAsync = promisify(execFile);
+
+// SHA-1, or SHA-256 for repositories using that object format
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}([0-9a-f]{24})?$/i;
+
+export class LocalRepositoryClient implements ContentSource {
+  private cache: Map<string, any> = new Map();
+  private config: RepositoryConfig;
+  private root: string;
+  private realRoot: Promise<string> | null = null;
+
+  constructor(config: Partial<RepositoryConfig> & { localPath: string }) {
+    this.config = {
+      ...DEFAULT_REPOSITORY_CONFIG,
+      ...config,
+    };
+    this.root = path.resolve(config.localPath);
+  }
+
+  /**
+   * Resolve a repository-relative path, refusing paths outside the checkout
+   */
+  private resolvePath(relativePath: string): string {
+    const resolved = path.resolve(this.root, relativePath);
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Path escapes repository root: ${relativePath}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolve a repository-relative path through symlinks, or null if it leads
+   * outside the checkout - a symlink in the checkout may point anywhere
+   */
+  private async resolveRealPath(relativePath: string): Promise<string | null> {
+    this.realRoot ??= fs.promises.realpath(this.root);
+    const [root, resolved] = await Promise.all([this.realRoot, fs.promises.realpath(this.resolvePath(relativePath))]);
+    return resolved === root || resolved.startsWith(root + path.sep) ? resolved : null;
+  }
+
+  /**
+   * Resolve a path to read, refusing paths whose target is outside the checkout
+   */
+  private async resolveReadPath(relativePath: string): Promise<string> {
+    const resolved = await this.resolveRealPath(relativePath);
+    if (!resolved) {
+      throw new Error(`Path escapes repository root: ${relativePath}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Get the repository configuration
+   */
+  getConfig(): RepositoryConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the checked-out commit SHA from .git, or 'unknown' for plain directories
+   */
+  async getLatestCommitSha(signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    const gitDir = path.join(this.root, '.git');
+    if (!fs.existsSync(path.join(gitDir, 'HEAD'))) {
+      return 'unknown'; // Plain directory or exported snapshot
+    }
+
+    try {
+      const head = (await fs.promises.readFile(path.join(gitDir, 'HEAD'), 'utf-8')).trim();
+      if (!head.startsWith('ref: ')) {
+        return head; // Detached HEAD
+      }
+
+      const ref = head.substring('ref: '.length);
+      const refPath = path.join(gitDir, ref);
+      if (fs.existsSync(refPath)) {
+        return (await fs.promises.readFile(refPath, 'utf-8')).trim();
+      }
+
+      // Ref may only exist in packed-refs
+      const packedRefs = await fs.promises.readFile(path.join(gitDir, 'packed-refs'), 'utf-8');
+      const line = packedRefs.split('\n').find((l) => l.endsWith(` ${ref}`));
+      if (line) {
+        return line.split(' ')[0];
+      }
+    } catch (error) {
+      log.warning('Failed to read commit SHA from local checkout', error);
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * Paths that differ on disk from baseCommit, from git: tracked files changed
+   * in commits or the working tree, and untracked files. Null when the
+   * directory is not a git checkout or does not have the commit.
+   */
+  async getChangedPaths(baseCommit: string, signal?: AbortSignal): Promise<string[] | null> {
+    signal?.throwIfAborted();
+    if (!fs.existsSync(path.join(this.root, '.git'))) {
+      return null;
+    }
+    // baseCommit comes from a stored index; anything else could be read as an option
+    if (!COMMIT_SHA_PATTERN.test(baseCommit)) {
+      log.warning(`Not listing changes since ${JSON.stringify(baseCommit)}: not a commit SHA`);
+      return null;
+    }
+
+    const git = async (...args: string[]) => {
+      const { stdout } = await execFileAsync('git', ['-C', this.root, ...args], {
+        signal,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return stdout.split('\0').filter(Boolean);
+    };
+
+    try {
+      const changed = await git('diff', '--name-only', '--no-renames', '-z', baseCommit, '--');
+      const untracked = await git('ls-files', '--others', '--exclude-standard', '-z');
+      return [...changed, ...untracked];
+    } catch (error) {
+      signal?.throwIfAborted();
+      log.warning(`Failed to list changes since ${baseCommit}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get file content from disk
+   */
+  async getFileContent(filePath: string, signal?: AbortSignal): Promise<string> {
+    const cacheKey = `file:${filePath}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    signal?.throwIfAborted();
+
+    try {
+      const content = await fs.promises.readFile(await this.resolveReadPath(filePath), 'utf-8');
+      this.cache.set(cacheKey, content);
+      return content;
+    } catch (error) {
+      throw new Error(`Error reading ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * List directory contents
+   */
+  async listDirectory(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    const cacheKey = `dir:${dirPath}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    signal?.throwIfAborted();
+
+    try {
+      const entries = await fs.promises.readdir(await this.resolveReadPath(dirPath), { withFileTypes: true });
+      const items = await Promise.all(
+        entries
+          .filter((entry) => entry.name !== '.git')
+          .map((entry) => this.toTreeItem(path.posix.join(dirPath, entry.name), entry))
+      );
+      const listed = items.filter((item): item is TreeItem => item !== null);
+      this.cache.set(cacheKey, listed);
+      return listed;
+    } catch (error) {
+      throw new Error(`Error listing ${dirPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the full directory tree by walking the checkout
+   * treeSha is accepted for interface compatibility and ignored
+   */
+  async getTree(_treeSha?: string, signal?: AbortSignal): Promise<RepositoryTree> {
+    const cacheKey = 'tree';
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    let tree: TreeItem[];
+    try {
+      tree = await this.walk('', signal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw new Error(`Error walking ${this.root}: ${error}`);
+    }
+
+    const result: RepositoryTree = {
+      sha: await this.getLatestCommitSha(signal),
+      url: pathToFileURL(this.root).href,
+      tree,
+      truncated: false,
+    };
+    this.cache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Get every item below a directory by walking only that directory
+   */
+  async getSubtree(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    const cacheKey = `subtree:${dirPath}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    let items: TreeItem[];
+    try {
+      items = await this.walk(dirPath, signal);
+    } catch (error) {
+      signal?.throwIfAborted();
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Error walking ${dirPath}: ${error}`);
+      }
+      items = []; // No such directory
+    }
+
+    this.cache.set(cacheKey, items);
+    return items;
+  }
+
+  /**
+   * Recursively list a directory (skipping .git) as tree entries
+   */
+  private async walk(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]> {
+    signal?.throwIfAborted();
+    const entries = await fs.promises.readdir(await this.resolveReadPath(dirPath), { withFileTypes: true });
+
+    const items: TreeItem[] = [];
+    for (const entry of entries) {
+      if (entry.name === '.git') {
+        continue;
+      }
+
+      const itemPath = dirPath ? path.posix.join(dirPath, entry.name) : entry.name;
+      const item = await this.toTreeItem(itemPath, entry);
+      if (!item) {
+        continue;
+      }
+      items.push(item);
+      if (entry.isDirectory()) {
+        items.push(...(await this.walk(itemPath, signal)));
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Build a GitHub-style tree entry for a directory entry
+   * Null for a symlink that leads outside the checkout, which is left out of listings.
+   */
+  private async toTreeItem(itemPath: string, entry: fs.Dirent): Promise<TreeItem | null> {
+    const fullPath = this.resolvePath(itemPath);
+    const target = await this.resolveRealPath(itemPath);
+    if (!target) {
+      log.warning(`Skipping ${itemPath}: links outside the repository root`);
+      return null;
+    }
+
+    if (entry.isDirectory()) {
+      return { path: itemPath, mode: '040000', type: 'tree', sha: '', url: pathToFileURL(fullPath).href };
+    }
+
+    const stats = await fs.promises.stat(target);
+    return {
+      path: itemPath,
+      mode: '100644',
+      type: 'blob',
+      sha: '',
+      size: stats.size,
+      url: pathToFileURL(fullPath).href,
+    };
+  }
+
+  /**
+   * Find all files matching a pattern in the tree
+   */
+  filterTreeByPattern(tree: RepositoryTree, pattern: RegExp): TreeItem[] {
+    return tree.tree.filter((item) => item.type === 'blob' && pattern.test(item.path));
+  }
+
+  /**
+   * Clear the cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Generate a file:// URL for a directory in the checkout
+   */
+  getDirectoryUrl(dirPath: string): string {
+    return pathToFileURL(this.resolvePath(dirPath)).href;
+  }
+
+  /**
+   * Generate a file:// URL for a file in the checkout
+   */
+  getFileUrl(filePath: string): string {
+    return pathToFileURL(this.resolvePath(filePath)).href;
+  }
+}
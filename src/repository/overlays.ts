@@ -0,0 +1,100 @@
+/**
+ * Overlay repositories layered on top of the base (Azure-Sentinel) content
+ *
+ * SENTINEL_OVERLAYS holds a JSON array - or the path of a JSON file - of
+ * repositories with the same layout as Azure-Sentinel, e.g. a private repo of
+ * in-house detections:
+ *
+ *   [{ "id": "internal", "owner": "contoso", "name": "sentinel-content", "branch": "main" },
+ *    { "id": "mirror", "owner": "secops", "name": "sentinel", "apiUrl": "https://ghe.contoso.com/api/v3" },
+ *    { "id": "lab", "path": "/data/lab-content" }]
+ *
+ * Overlays take precedence over the base repository, and earlier entries over
+ * later ones. Every item records the id of the source it came from.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { CONTENT_SOURCE_TYPES, RepositoryConfig } from '../types/repository.js';
+
+/**
+ * Source id of content from the base repository
+ */
+export const BASE_SOURCE = 'upstream';
+
+const overlaySchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .refine((id) => id !== BASE_SOURCE, `"${BASE_SOURCE}" is reserved for the base repository`),
+  owner: z.string().optional(),
+  name: z.string().optional(),
+  branch: z.string().optional(),
+  ref: z.string().optional(),
+  path: z.string().optional(),
+  type: z.enum(CONTENT_SOURCE_TYPES).optional(),
+  solutionsPath: z.string().optional(),
+  apiUrl: z.url().optional(),
+  rawUrl: z.url().optional(),
+});
+
+export interface OverlaySource {
+  /** Recorded in the source field of every item it provides */
+  id: string;
+  repository: Partial<RepositoryConfig>;
+}
+
+let overlays: OverlaySource[] | null = null;
+
+/**
+ * Parse an overlay definition list (JSON text or a file path)
+ */
+export function parseOverlays(value: string): OverlaySource[] {
+  const text = value.trim().startsWith('[') ? value : fs.readFileSync(value, 'utf-8');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid SENTINEL_OVERLAYS: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = z.array(overlaySchema).safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid SENTINEL_OVERLAYS: ${z.prettifyError(result.error)}`);
+  }
+
+  const ids = new Set<string>();
+  return result.data.map((entry) => {
+    if (ids.has(entry.id)) {
+      throw new Error(`Invalid SENTINEL_OVERLAYS: duplicate id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+
+    // An overlay never inherits a local path or type meant for the base repository
+    return {
+      id: entry.id,
+      repository: {
+        owner: entry.owner,
+        name: entry.name,
+        branch: entry.branch,
+        ref: entry.ref,
+        localPath: entry.path,
+        sourceType: entry.type || (entry.path ? undefined : 'github'),
+        solutionsPath: entry.solutionsPath,
+        apiUrl: entry.apiUrl,
+        rawUrl: entry.rawUrl,
+      },
+    };
+  });
+}
+
+/**
+ * Configured overlays, highest precedence first
+ */
+export function getOverlaySources(): OverlaySource[] {
+  if (!overlays) {
+    overlays = process.env.SENTINEL_OVERLAYS ? parseOverlays(process.env.SENTINEL_OVERLAYS) : [];
+  }
+  return overlays;
+}
@@ -1,68 +1,72 @@
 /**
- * Repository Manager for Azure-Sentinel GitHub repository
- * Uses GitHub API - no cloning required!
+ * Repository Manager for the Azure-Sentinel content repository
+ * Reads through the configured content source - GitHub API by default, no cloning required!
  */
 
-import { GitHubClient } from './githubClient.js';
+import { createContentSource } from './clientFactory.js';
+import { ContentSource } from '../types/repository.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('repoManager');
 
 export class RepositoryManager {
-  private github: GitHubClient;
+  private source: ContentSource;
 
   constructor() {
-    this.github = new GitHubClient();
+    this.source = createContentSource();
   }
 
   /**
-   * Ensure repository is accessible (always ready with GitHub API)
+   * Ensure repository is accessible (always ready - sources read on demand)
    */
   async ensureRepository(forceRefresh = false): Promise<void> {
     if (forceRefresh) {
-      console.error('Force refresh requested, clearing cache...');
-      this.github.clearCache();
+      log.info('Force refresh requested, clearing cache...');
+      this.source.clearCache();
     }
 
-    console.error('Using Azure-Sentinel repository via GitHub API (no download needed)');
+    log.info(`Using Azure-Sentinel repository via ${this.source.getConfig().sourceType || 'github'} source`);
   }
 
   /**
    * Get the current commit hash of the repository
    */
   async getCurrentCommit(): Promise<string> {
-    return await this.github.getLatestCommitSha();
+    return await this.source.getLatestCommitSha();
   }
 
   /**
-   * Get GitHub client for direct access
+   * Get the content source for direct access
    */
-  getGitHubClient(): GitHubClient {
-    return this.github;
+  getContentSource(): ContentSource {
+    return this.source;
   }
 
   /**
    * Get file content from GitHub
    */
   async getFileContent(path: string): Promise<string> {
-    return await this.github.getFileContent(path);
+    return await this.source.getFileContent(path);
   }
 
   /**
    * List directory contents
    */
   async listDirectory(path: string): Promise<any[]> {
-    return await this.github.listDirectory(path);
+    return await this.source.listDirectory(path);
   }
 
   /**
-   * Get GitHub URL for a path
+   * Get browsable URL for a directory
    */
-  getGitHubUrl(path: string): string {
-    return this.github.getGitHubUrl(path);
+  getDirectoryUrl(path: string): string {
+    return this.source.getDirectoryUrl(path);
   }
 
   /**
-   * Get GitHub blob URL for a file
+   * Get browsable URL for a file
    */
-  getGitHubBlobUrl(path: string): string {
-    return this.github.getGitHubBlobUrl(path);
+  getFileUrl(path: string): string {
+    return this.source.getFileUrl(path);
   }
 }
@@ -0,0 +1,296 @@
+/**
+ * MCP Resources for Microsoft Sentinel content
+ *
+ * Exposes indexed content under stable URIs so clients can attach it
+ * to a conversation without a tool round trip:
+ * - sentinel://solution/{name}
+ * - sentinel://detection/{id}
+ * - sentinel://table/{name}
+ * - sentinel://connector/{id}
+ *
+ * All resources are backed by the pre-built index.
+ */
+
+import { AnalysisResult, TableInfo } from '../types/index.js';
+import { Detection } from '../types/content.js';
+import { loadPreBuiltIndex, withIndexedQuery } from '../utils/indexLoader.js';
+
+const URI_SCHEME = 'sentinel://';
+const MIME_TYPE = 'application/json';
+const PAGE_SIZE = 500;
+
+type ResourceKind = 'solution' | 'detection' | 'table' | 'connector';
+
+export interface SentinelResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * sentinel://connector/{id}: a connector and the tables it populates
+ */
+export interface ConnectorResource {
+  connectorId: string;
+  connectorTitle: string;
+  solution: string;
+  tables: string[];
+}
+
+/**
+ * sentinel://solution/{name}: a solution's connectors, tables and content
+ */
+export interface SolutionResource {
+  name: string;
+  connectors: Array<{ id: string; title: string; tables: string[] }>;
+  tables: string[];
+  detections: Array<Pick<Detection, 'id' | 'name' | 'severity'> & { uri: string }>;
+  contentCounts: {
+    detections: number;
+    huntingQueries: number;
+    workbooks: number;
+    playbooks: number;
+    parsers: number;
+  };
+}
+
+/**
+ * Resource templates advertised via resources/templates/list
+ */
+export const resourceTemplates = [
+  {
+    uriTemplate: `${URI_SCHEME}solution/{name}`,
+    name: 'Sentinel solution',
+    description: 'Solution metadata, connectors, tables and content counts',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}detection/{id}`,
+    name: 'Sentinel detection rule',
+    description: 'Analytics rule definition including MITRE ATT&CK mappings',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}table/{name}`,
+    name: 'Log Analytics table',
+    description: 'Connectors and solutions that ingest into a table',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}connector/{id}`,
+    name: 'Sentinel data connector',
+    description: 'Connector title, solution and the tables it populates',
+    mimeType: MIME_TYPE,
+  },
+];
+
+/**
+ * Build a resource URI for an item
+ */
+export function buildResourceUri(kind: ResourceKind, key: string): string {
+  return `${URI_SCHEME}${kind}/${encodeURIComponent(key)}`;
+}
+
+/**
+ * Parse a sentinel:// URI into its kind and key
+ */
+function parseResourceUri(uri: string): { kind: ResourceKind; key: string } | null {
+  const match = uri.match(/^sentinel:\/\/(solution|detection|table|connector)\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  return { kind: match[1] as ResourceKind, key: decodeURIComponent(match[2]) };
+}
+
+/**
+ * Load the pre-built index or fail with a clear message
+ */
+function requireIndex(): AnalysisResult {
+  const index = loadPreBuiltIndex();
+  if (!index) {
+    throw new Error('Pre-built index not available - resources require the bundled index');
+  }
+  return index;
+}
+
+/**
+ * Collect unique solution names from mappings and content
+ */
+function getSolutionNames(index: AnalysisResult): string[] {
+  const names = new Set<string>();
+  index.mappings.forEach((m) => names.add(m.solution));
+  index.detections?.forEach((d) => d.solution && names.add(d.solution));
+  return Array.from(names).sort();
+}
+
+/**
+ * Build table info for a single table from the connector mappings
+ */
+function getTableInfo(index: AnalysisResult, tableName: string): TableInfo | null {
+  const mappings = index.mappings.filter((m) => m.tableName === tableName);
+  if (mappings.length === 0) {
+    return null;
+  }
+
+  return {
+    tableName,
+    isCustomLog: tableName.endsWith('_CL'),
+    connectors: mappings.map((m) => ({
+      connectorId: m.connectorId,
+      connectorTitle: m.connectorTitle,
+      solution: m.solution,
+    })),
+  };
+}
+
+/**
+ * Build the connector view from the connector mappings
+ */
+function getConnectorInfo(index: AnalysisResult, connectorId: string): ConnectorResource | null {
+  const mappings = index.mappings.filter((m) => m.connectorId === connectorId);
+  if (mappings.length === 0) {
+    return null;
+  }
+
+  return {
+    connectorId,
+    connectorTitle: mappings[0].connectorTitle,
+    solution: mappings[0].solution,
+    tables: Array.from(new Set(mappings.map((m) => m.tableName))),
+  };
+}
+
+/**
+ * Build the solution view from mappings and content
+ */
+function getSolutionInfo(index: AnalysisResult, solutionName: string): SolutionResource | null {
+  const mappings = index.mappings.filter((m) => m.solution === solutionName);
+  const inSolution = <T extends { solution?: string }>(items?: T[]) =>
+    (items || []).filter((item) => item.solution === solutionName);
+
+  const detections = inSolution(index.detections);
+  if (mappings.length === 0 && detections.length === 0) {
+    return null;
+  }
+
+  const connectors = new Map<string, SolutionResource['connectors'][number]>();
+  mappings.forEach((m) => {
+    if (!connectors.has(m.connectorId)) {
+      connectors.set(m.connectorId, { id: m.connectorId, title: m.connectorTitle, tables: [] });
+    }
+    connectors.get(m.connectorId)!.tables.push(m.tableName);
+  });
+
+  return {
+    name: solutionName,
+    connectors: Array.from(connectors.values()),
+    tables: Array.from(new Set(mappings.map((m) => m.tableName))),
+    detections: detections.map((d) => ({
+      id: d.id,
+      name: d.name,
+      severity: d.severity,
+      uri: buildResourceUri('detection', d.id),
+    })),
+    contentCounts: {
+      detections: detections.length,
+      huntingQueries: inSolution(index.huntingQueries).length,
+      workbooks: inSolution(index.workbooks).length,
+      playbooks: inSolution(index.playbooks).length,
+      parsers: inSolution(index.parsers).length,
+    },
+  };
+}
+
+/**
+ * List concrete resources (paginated - the index holds thousands of items)
+ */
+export function listResources(cursor?: string): {
+  resources: SentinelResource[];
+  nextCursor?: string;
+} {
+  const index = requireIndex();
+
+  const all: SentinelResource[] = [
+    ...getSolutionNames(index).map((name) => ({
+      uri: buildResourceUri('solution', name),
+      name: `Solution: ${name}`,
+      mimeType: MIME_TYPE,
+    })),
+    ...Array.from(new Set(index.mappings.map((m) => m.tableName)))
+      .sort()
+      .map((name) => ({
+        uri: buildResourceUri('table', name),
+        name: `Table: ${name}`,
+        mimeType: MIME_TYPE,
+      })),
+    ...Array.from(new Set(index.mappings.map((m) => m.connectorId)))
+      .sort()
+      .map((id) => ({
+        uri: buildResourceUri('connector', id),
+        name: `Connector: ${id}`,
+        mimeType: MIME_TYPE,
+      })),
+    ...(index.detections || []).map((d) => ({
+      uri: buildResourceUri('detection', d.id),
+      name: `Detection: ${d.name}`,
+      description: d.solution ? `From solution ${d.solution}` : undefined,
+      mimeType: MIME_TYPE,
+    })),
+  ];
+
+  const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+  const end = offset + PAGE_SIZE;
+
+  return {
+    resources: all.slice(offset, end),
+    nextCursor: end < all.length ? String(end) : undefined,
+  };
+}
+
+/**
+ * Read a single resource by URI
+ */
+export function readResource(uri: string): {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+} {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  const index = requireIndex();
+  let data: unknown = null;
+
+  switch (parsed.kind) {
+    case 'solution':
+      data = getSolutionInfo(index, parsed.key);
+      break;
+    case 'detection': {
+      const detection = index.detections?.find((d) => d.id === parsed.key);
+      data = detection ? withIndexedQuery(detection) : null;
+      break;
+    }
+    case 'table':
+      data = getTableInfo(index, parsed.key);
+      break;
+    case 'connector':
+      data = getConnectorInfo(index, parsed.key);
+      break;
+  }
+
+  if (!data) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * MCP server factory
+ * Builds a Server instance with all request handlers registered.
+ * Each transport connection (stdio, or one per HTTP session) gets its own instance.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { allTools } from './tools/index.js';
+import { pickRepositoryArgs, repositoryFromArgs } from './tools/schemas.js';
+import { listResources, readResource, resourceTemplates } from './resources/index.js';
+import { allPrompts, describePromptArguments } from './prompts/index.js';
+import { complete } from './completions/index.js';
+import { toJsonSchema } from './utils/jsonSchema.js';
+import { OperationContext } from './types/operation.js';
+import { LogSink, withLogSink } from './utils/logger.js';
+import { abortable } from './utils/concurrency.js';
+import { getIndexStatus, IndexStatus } from './utils/indexRefresh.js';
+
+export const SERVER_NAME = 'sentinel-analyzer';
+export const SERVER_VERSION = '1.0.0';
+
+/**
+ * One-line summary of the pre-built index freshness, e.g.
+ * "Index: built 2026-01-01T00:00:00.000Z (3.5 days old, bundled)"
+ */
+function describeIndexStatus(index: IndexStatus): string {
+  const details = [
+    index.ageDays === undefined ? 'unknown age' : `${index.ageDays} days old`,
+    index.source,
+    ...(index.stale ? ['stale'] : []),
+    ...(index.refreshing ? ['refreshing'] : []),
+  ];
+  return `Index: built ${index.builtAt || 'at an unknown time'} (${details.join(', ')})`;
+}
+
+/**
+ * Create a new MCP server exposing the allTools registry, indexed resources and prompts
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
+        completions: {},
+      },
+    }
+  );
+
+  // Deliver module log messages as MCP notifications/message
+  // (logging/setLevel is handled by the SDK once the capability is declared)
+  const logSink: LogSink = (level, logger, data) => {
+    void server.sendLoggingMessage({ level, logger, data }, server.transport?.sessionId);
+  };
+
+  // Handle list_tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: allTools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toJsonSchema(tool.inputSchema),
+        outputSchema: toJsonSchema(tool.outputSchema, 'output'),
+      })),
+    };
+  });
+
+  // Handle call_tool request
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    // Cancellation and progress reporting for long-running scans
+    const context: OperationContext = {
+      signal: extra.signal,
+      onProgress:
+        progressToken !== undefined
+          ? (progress, total, message) => {
+              void extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message },
+              });
+            }
+          : undefined,
+    };
+
+    const tool = allTools.find((t) => t.name === name);
+
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    try {
+      // Validate arguments
+      const validatedArgs = tool.inputSchema.parse(args || {});
+
+      // Execute tool (a limit hit below fails the call rather than one file)
+      const { result, warnings } = await withLogSink(logSink, () =>
+        abortable(context, (requestContext) => tool.execute(validatedArgs, requestContext))
+      );
+      // Freshness of the index the call read from
+      const index = getIndexStatus(repositoryFromArgs(pickRepositoryArgs(validatedArgs)));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+          ...warnings.map((warning) => ({ type: 'text', text: `Warning: ${warning}` })),
+          ...(index ? [{ type: 'text', text: describeIndexStatus(index) }] : []),
+        ],
+        structuredContent: { result, ...(warnings.length > 0 && { warnings }), ...(index && { index }) },
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: errorMessage,
+                tool: name,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // Handle resources/list request
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const { result } = await withLogSink(logSink, async () => listResources(request.params?.cursor));
+    return result;
+  });
+
+  // Handle resources/templates/list request
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  // Handle resources/read request
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { result } = await withLogSink(logSink, async () => readResource(request.params.uri));
+    return result;
+  });
+
+  // Handle prompts/list request
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: allPrompts.map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: describePromptArguments(prompt.argsSchema),
+      })),
+    };
+  });
+
+  // Handle prompts/get request
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    const prompt = allPrompts.find((p) => p.name === name);
+
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const validatedArgs = prompt.argsSchema.parse(args || {});
+
+    return {
+      description: prompt.description,
+      messages: prompt.build(validatedArgs),
+    };
+  });
+
+  // Handle completion/complete request
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { result } = await withLogSink(logSink, async () =>
+      complete(request.params.ref, request.params.argument)
+    );
+    return result;
+  });
+
+  return server;
+}
@@ -0,0 +1,35 @@
+/**
+ * Cache Management Tools (Tool 24)
+ */
+
+import { z } from 'zod';
+import { clearCacheResultSchema, toolOutput } from './outputSchemas.js';
+import { resetAnalysisCache } from './solutionTools.js';
+import { getBlobCache } from '../repository/blobCache.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('cacheTools');
+
+/**
+ * Tool 24: Clear caches
+ */
+export const clearCacheTool = {
+  name: 'clear_cache',
+  description: 'Delete the on-disk file cache (keyed by git blob SHA) and in-memory analysis results. The next live scan re-downloads every file.',
+  inputSchema: z.object({}),
+  outputSchema: toolOutput(clearCacheResultSchema),
+  execute: async (): Promise<{ directory: string; entriesRemoved: number; bytesFreed: number }> => {
+    resetAnalysisCache();
+
+    const removed = await getBlobCache().clear();
+    log.info(`Cleared ${removed.entries} cached blobs (${removed.bytes} bytes) from ${removed.directory}`);
+
+    return {
+      directory: removed.directory,
+      entriesRemoved: removed.entries,
+      bytesFreed: removed.bytes,
+    };
+  },
+};
+
+export const cacheTools = [clearCacheTool];
@@ -3,7 +3,20 @@
  */
 
 import { z } from 'zod';
+import {
+  asimContentSchema,
+  contentItemSchema,
+  dataConnectorSchema,
+  huntingQuerySchema,
+  notebookSchema,
+  toolSchema,
+  watchlistSchema,
+  pageSchema,
+  toolOutput,
+} from './outputSchemas.js';
+import { repositoryFromArgs, repositorySourceSchema, RepositoryArgs } from './schemas.js';
 import { ContentScanner } from '../loaders/contentScanner.js';
+import { applyOverlays } from '../loaders/overlayLoader.js';
 import {
   HuntingQuery,
   HuntingQueryFilters,
@@ -20,15 +33,16 @@ import {
   Dashboard,
   DataConnector
 } from '../types/content.js';
-import { loadPreBuiltIndex } from '../utils/indexLoader.js';
-import { filterHuntingQueries, filterGenericContent, applyLimit, filterPlaybooks, filterParsers } from '../utils/contentFilters.js';
+import { OperationContext } from '../types/operation.js';
+import { getPreBuiltIndex } from '../utils/indexRefresh.js';
+import { filterHuntingQueries, filterGenericContent, filterQueryContent, paginate, projectPage, resolveCursor, Page, ContentView, filterPlaybooks, filterParsers } from '../utils/contentFilters.js';
 
 /**
  * Tool 11: List hunting queries
  */
 export const listHuntingQueriesTool = {
   name: 'list_hunting_queries',
-  description: 'List and filter Microsoft Sentinel hunting queries - search by solution, tactic, technique, name, query content, or file path. Returns max 100 results by default.',
+  description: 'List and filter Microsoft Sentinel hunting queries - search by solution, tactic, technique, name, query content, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     tactic: z.string().optional().describe('Filter by MITRE ATT&CK tactic'),
@@ -36,45 +50,42 @@ export const listHuntingQueriesTool = {
     name: z.string().optional().describe('Search in query name/title'),
     query_contains: z.string().optional().describe('Search for specific text in the KQL query (e.g., table names like "Syslog", "SecurityEvent")'),
     path_contains: z.string().optional().describe('Search in file path (e.g., "Syslog", "Linux")'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "tactics", "techniques"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no KQL or required data connectors, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: HuntingQueryFilters & { limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<HuntingQuery[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(huntingQuerySchema.partial())),
+  execute: async (args: RepositoryArgs & HuntingQueryFilters & { limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<HuntingQuery>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let queries: HuntingQuery[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      // Try to use pre-built index
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.huntingQueries) {
-        queries = preBuiltIndex.huntingQueries;
-      } else {
-        // Fall back to GitHub
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        queries = await analyzer.listHuntingQueries();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.huntingQueries) {
+      queries = preBuiltIndex.huntingQueries;
     } else {
-      // Fetch from GitHub (custom repo or force_refresh)
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       queries = await analyzer.listHuntingQueries();
     }
 
+    // Merge overlay repositories over the base content
+    queries = await applyOverlays(queries, 'listHuntingQueries', (scanner) => scanner.listHuntingQueries(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     queries = filterHuntingQueries(queries, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(queries, args.limit, 'hunting queries');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(queries, args), args);
   },
 };
 
@@ -83,50 +94,47 @@ export const listHuntingQueriesTool = {
  */
 export const listPlaybooksTool = {
   name: 'list_playbooks',
-  description: 'List Microsoft Sentinel playbooks (Logic Apps) - search by solution, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel playbooks (Logic Apps) - search by solution, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in playbook name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "solution", "filePath"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Playbook[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Playbook>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let playbooks: Playbook[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      // Try to use pre-built index
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.playbooks) {
-        playbooks = preBuiltIndex.playbooks;
-      } else {
-        // Fall back to GitHub
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        playbooks = await analyzer.listPlaybooks();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.playbooks) {
+      playbooks = preBuiltIndex.playbooks;
     } else {
-      // Fetch from GitHub (custom repo or force_refresh)
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       playbooks = await analyzer.listPlaybooks();
     }
 
+    // Merge overlay repositories over the base content
+    playbooks = await applyOverlays(playbooks, 'listPlaybooks', (scanner) => scanner.listPlaybooks(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     playbooks = filterPlaybooks(playbooks, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(playbooks, args.limit, 'playbooks');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(playbooks, args), args);
   },
 };
 
@@ -135,51 +143,48 @@ export const listPlaybooksTool = {
  */
 export const listParsersTool = {
   name: 'list_parsers',
-  description: 'List Microsoft Sentinel parsers (KQL functions) - search by solution, name, query content, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel parsers (KQL functions) - search by solution, name, query content, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in parser name/title'),
     query_contains: z.string().optional().describe('Search for specific text in the KQL query'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "solution", "filePath"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no KQL, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; query_contains?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Parser[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; query_contains?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Parser>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let parsers: Parser[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      // Try to use pre-built index
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.parsers) {
-        parsers = preBuiltIndex.parsers;
-      } else {
-        // Fall back to GitHub
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        parsers = await analyzer.listParsers();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.parsers) {
+      parsers = preBuiltIndex.parsers;
     } else {
-      // Fetch from GitHub (custom repo or force_refresh)
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       parsers = await analyzer.listParsers();
     }
 
+    // Merge overlay repositories over the base content
+    parsers = await applyOverlays(parsers, 'listParsers', (scanner) => scanner.listParsers(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     parsers = filterParsers(parsers, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(parsers, args.limit, 'parsers');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(parsers, args), args);
   },
 };
 
@@ -188,47 +193,47 @@ export const listParsersTool = {
  */
 export const listWatchlistsTool = {
   name: 'list_watchlists',
-  description: 'List Microsoft Sentinel watchlists - search by solution, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel watchlists - search by solution, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in watchlist name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "alias", "solution"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Watchlist[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(watchlistSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Watchlist>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let watchlists: Watchlist[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.watchlists) {
-        watchlists = preBuiltIndex.watchlists;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        watchlists = await analyzer.listWatchlists();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.watchlists) {
+      watchlists = preBuiltIndex.watchlists;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       watchlists = await analyzer.listWatchlists();
     }
 
+    // Merge overlay repositories over the base content
+    watchlists = await applyOverlays(watchlists, 'listWatchlists', (scanner) => scanner.listWatchlists(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     watchlists = filterGenericContent(watchlists, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(watchlists, args.limit, 'watchlists');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(watchlists, args), args);
   },
 };
 
@@ -237,47 +242,47 @@ export const listWatchlistsTool = {
  */
 export const listNotebooksTool = {
   name: 'list_notebooks',
-  description: 'List Microsoft Sentinel Jupyter notebooks - search by solution, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel Jupyter notebooks - search by solution, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in notebook name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "tags"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Notebook[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(notebookSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Notebook>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let notebooks: Notebook[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.notebooks) {
-        notebooks = preBuiltIndex.notebooks;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        notebooks = await analyzer.listNotebooks();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.notebooks) {
+      notebooks = preBuiltIndex.notebooks;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       notebooks = await analyzer.listNotebooks();
     }
 
+    // Merge overlay repositories over the base content
+    notebooks = await applyOverlays(notebooks, 'listNotebooks', (scanner) => scanner.listNotebooks(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     notebooks = filterGenericContent(notebooks, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(notebooks, args.limit, 'notebooks');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(notebooks, args), args);
   },
 };
 
@@ -286,48 +291,48 @@ export const listNotebooksTool = {
  */
 export const listExplorationQueriesTool = {
   name: 'list_exploration_queries',
-  description: 'List Microsoft Sentinel exploration queries - search by solution, name, query content, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel exploration queries - search by solution, name, query content, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in query name/title'),
     query_contains: z.string().optional().describe('Search for specific text in the KQL query'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "solution", "query"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no KQL, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; query_contains?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<ExplorationQuery[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; query_contains?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<ExplorationQuery>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let queries: ExplorationQuery[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.explorationQueries) {
-        queries = preBuiltIndex.explorationQueries;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        queries = await analyzer.listExplorationQueries();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.explorationQueries) {
+      queries = preBuiltIndex.explorationQueries;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       queries = await analyzer.listExplorationQueries();
     }
 
+    // Merge overlay repositories over the base content
+    queries = await applyOverlays(queries, 'listExplorationQueries', (scanner) => scanner.listExplorationQueries(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
-    queries = filterGenericContent(queries, args);
+    queries = filterQueryContent(queries, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(queries, args.limit, 'exploration queries');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(queries, args), args);
   },
 };
 
@@ -336,48 +341,48 @@ export const listExplorationQueriesTool = {
  */
 export const listFunctionsTool = {
   name: 'list_functions',
-  description: 'List Microsoft Sentinel saved functions - search by solution, name, query content, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel saved functions - search by solution, name, query content, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in function name/title'),
     query_contains: z.string().optional().describe('Search for specific text in the KQL query'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "solution", "filePath"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no KQL, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; query_contains?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<SentinelFunction[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; query_contains?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<SentinelFunction>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let functions: SentinelFunction[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.functions) {
-        functions = preBuiltIndex.functions;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        functions = await analyzer.listFunctions();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.functions) {
+      functions = preBuiltIndex.functions;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       functions = await analyzer.listFunctions();
     }
 
+    // Merge overlay repositories over the base content
+    functions = await applyOverlays(functions, 'listFunctions', (scanner) => scanner.listFunctions(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
-    functions = filterGenericContent(functions, args);
+    functions = filterQueryContent(functions, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(functions, args.limit, 'functions');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(functions, args), args);
   },
 };
 
@@ -386,42 +391,42 @@ export const listFunctionsTool = {
  */
 export const listASIMContentTool = {
   name: 'list_asim_content',
-  description: 'List Microsoft Sentinel ASIM (Advanced Security Information Model) content - search by type, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel ASIM (Advanced Security Information Model) content - search by type, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     type: z.enum(['Parser', 'Schema', 'Documentation']).optional().describe('Filter by ASIM content type'),
     name: z.string().optional().describe('Search in content name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "type", "filePath"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { type?: 'Parser' | 'Schema' | 'Documentation'; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<ASIMContent[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(asimContentSchema.partial())),
+  execute: async (args: RepositoryArgs & { type?: 'Parser' | 'Schema' | 'Documentation'; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<ASIMContent>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let content: ASIMContent[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.asimContent) {
-        content = preBuiltIndex.asimContent;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        content = await analyzer.listASIMContent();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.asimContent) {
+      content = preBuiltIndex.asimContent;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       content = await analyzer.listASIMContent();
     }
 
+    // Merge overlay repositories over the base content
+    content = await applyOverlays(content, 'listASIMContent', (scanner) => scanner.listASIMContent(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply type filter
     if (args.type) {
       content = content.filter(c => c.type === args.type);
@@ -430,8 +435,8 @@ export const listASIMContentTool = {
     // Apply generic filters using centralized utility
     content = filterGenericContent(content, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(content, args.limit, 'ASIM content items');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(content, args), args);
   },
 };
 
@@ -440,48 +445,48 @@ export const listASIMContentTool = {
  */
 export const listSummaryRulesTool = {
   name: 'list_summary_rules',
-  description: 'List Microsoft Sentinel summary rules - search by solution, name, query content, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel summary rules - search by solution, name, query content, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in rule name/title'),
     query_contains: z.string().optional().describe('Search for specific text in the KQL query'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "solution", "query"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no KQL, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; query_contains?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<SummaryRule[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; query_contains?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<SummaryRule>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let rules: SummaryRule[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.summaryRules) {
-        rules = preBuiltIndex.summaryRules;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        rules = await analyzer.listSummaryRules();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.summaryRules) {
+      rules = preBuiltIndex.summaryRules;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       rules = await analyzer.listSummaryRules();
     }
 
+    // Merge overlay repositories over the base content
+    rules = await applyOverlays(rules, 'listSummaryRules', (scanner) => scanner.listSummaryRules(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
-    rules = filterGenericContent(rules, args);
+    rules = filterQueryContent(rules, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(rules, args.limit, 'summary rules');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(rules, args), args);
   },
 };
 
@@ -490,42 +495,42 @@ export const listSummaryRulesTool = {
  */
 export const listToolsTool = {
   name: 'list_tools',
-  description: 'List Microsoft Sentinel tools and utilities - search by category, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel tools and utilities - search by category, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     category: z.string().optional().describe('Filter by tool category'),
     name: z.string().optional().describe('Search in tool name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "category"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { category?: string; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Tool[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(toolSchema.partial())),
+  execute: async (args: RepositoryArgs & { category?: string; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Tool>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let tools: Tool[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.tools) {
-        tools = preBuiltIndex.tools;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        tools = await analyzer.listTools();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.tools) {
+      tools = preBuiltIndex.tools;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       tools = await analyzer.listTools();
     }
 
+    // Merge overlay repositories over the base content
+    tools = await applyOverlays(tools, 'listTools', (scanner) => scanner.listTools(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply category filter
     if (args.category) {
       tools = tools.filter(t => t.category?.toLowerCase().includes(args.category!.toLowerCase()));
@@ -534,8 +539,8 @@ export const listToolsTool = {
     // Apply generic filters using centralized utility
     tools = filterGenericContent(tools, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(tools, args.limit, 'tools');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(tools, args), args);
   },
 };
 
@@ -544,46 +549,46 @@ export const listToolsTool = {
  */
 export const listTutorialsTool = {
   name: 'list_tutorials',
-  description: 'List Microsoft Sentinel tutorials and learning resources - search by name or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel tutorials and learning resources - search by name or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     name: z.string().optional().describe('Search in tutorial name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "filePath"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Tutorial[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Tutorial>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let tutorials: Tutorial[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.tutorials) {
-        tutorials = preBuiltIndex.tutorials;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        tutorials = await analyzer.listTutorials();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.tutorials) {
+      tutorials = preBuiltIndex.tutorials;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       tutorials = await analyzer.listTutorials();
     }
 
+    // Merge overlay repositories over the base content
+    tutorials = await applyOverlays(tutorials, 'listTutorials', (scanner) => scanner.listTutorials(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     tutorials = filterGenericContent(tutorials, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(tutorials, args.limit, 'tutorials');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(tutorials, args), args);
   },
 };
 
@@ -592,47 +597,47 @@ export const listTutorialsTool = {
  */
 export const listDashboardsTool = {
   name: 'list_dashboards',
-  description: 'List Microsoft Sentinel dashboards - search by solution, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel dashboards - search by solution, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     name: z.string().optional().describe('Search in dashboard name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "solution", "filePath"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution?: string; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Dashboard[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(contentItemSchema.partial())),
+  execute: async (args: RepositoryArgs & { solution?: string; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Dashboard>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let dashboards: Dashboard[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.dashboards) {
-        dashboards = preBuiltIndex.dashboards;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        dashboards = await analyzer.listDashboards();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.dashboards) {
+      dashboards = preBuiltIndex.dashboards;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       dashboards = await analyzer.listDashboards();
     }
 
+    // Merge overlay repositories over the base content
+    dashboards = await applyOverlays(dashboards, 'listDashboards', (scanner) => scanner.listDashboards(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     dashboards = filterGenericContent(dashboards, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(dashboards, args.limit, 'dashboards');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(dashboards, args), args);
   },
 };
 
@@ -641,42 +646,42 @@ export const listDashboardsTool = {
  */
 export const listDataConnectorsTool = {
   name: 'list_data_connectors',
-  description: 'List Microsoft Sentinel data connectors - search by connector type, name, or file path. Returns max 100 results by default.',
+  description: 'List Microsoft Sentinel data connectors - search by connector type, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     connector_type: z.string().optional().describe('Filter by connector type'),
     name: z.string().optional().describe('Search in connector name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "connectorType"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name), standard (descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Set to true to fetch latest data from GitHub (default: uses pre-built index)'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { connector_type?: string; name?: string; path_contains?: string; limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<DataConnector[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(dataConnectorSchema.partial())),
+  execute: async (args: RepositoryArgs & { connector_type?: string; name?: string; path_contains?: string; source?: string; limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<DataConnector>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let connectors: DataConnector[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.dataConnectors) {
-        connectors = preBuiltIndex.dataConnectors;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        connectors = await analyzer.listDataConnectors();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.dataConnectors) {
+      connectors = preBuiltIndex.dataConnectors;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       connectors = await analyzer.listDataConnectors();
     }
 
+    // Merge overlay repositories over the base content
+    connectors = await applyOverlays(connectors, 'listDataConnectors', (scanner) => scanner.listDataConnectors(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply connector type filter
     if (args.connector_type) {
       connectors = connectors.filter(c => c.connectorType?.toLowerCase().includes(args.connector_type!.toLowerCase()));
@@ -685,8 +690,8 @@ export const listDataConnectorsTool = {
     // Apply generic filters using centralized utility
     connectors = filterGenericContent(connectors, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(connectors, args.limit, 'data connectors');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(connectors, args), args);
   },
 };
 
@@ -3,17 +3,26 @@
  */
 
 import { z } from 'zod';
+import {
+  detectionSchema,
+  pageSchema,
+  toolOutput,
+} from './outputSchemas.js';
+import { repositoryFromArgs, repositorySourceSchema, RepositoryArgs } from './schemas.js';
 import { ContentScanner } from '../loaders/contentScanner.js';
+import { applyOverlays } from '../loaders/overlayLoader.js';
 import { Detection, DetectionFilters } from '../types/content.js';
-import { loadPreBuiltIndex } from '../utils/indexLoader.js';
-import { filterDetections, applyLimit } from '../utils/contentFilters.js';
+import { OperationContext } from '../types/operation.js';
+import { withIndexedQuery } from '../utils/indexLoader.js';
+import { getPreBuiltIndex } from '../utils/indexRefresh.js';
+import { filterDetections, paginate, projectPage, resolveCursor, Page, ContentView } from '../utils/contentFilters.js';
 
 /**
  * Tool 7: List detections
  */
 export const listDetectionsTool = {
   name: 'list_detections',
-  description: 'List and filter Microsoft Sentinel detection rules (analytics) - search by solution, severity, tactic, technique, name, query content, or file path. Returns max 100 results by default.',
+  description: 'List and filter Microsoft Sentinel detection rules (analytics) - search by solution, severity, tactic, technique, name, query content, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     severity: z.string().optional().describe('Filter by severity (Informational, Low, Medium, High, Critical)'),
@@ -23,46 +32,42 @@ export const listDetectionsTool = {
     name: z.string().optional().describe('Search in detection name/title'),
     query_contains: z.string().optional().describe('Search for specific text in the KQL query (e.g., table names like "Syslog", "SecurityEvent")'),
     path_contains: z.string().optional().describe('Search in file path (e.g., "Syslog", "Linux")'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "severity", "tactics"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no KQL or nested rule configuration, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Force refresh from GitHub'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: DetectionFilters & { limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Detection[]> => {
-    // Check if using default repository and pre-built index is available
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(detectionSchema.partial())),
+  execute: async (args: RepositoryArgs & DetectionFilters & { limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Detection>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let detections: Detection[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      // Try to use pre-built index
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.detections) {
-        detections = preBuiltIndex.detections;
-      } else {
-        // Fall back to GitHub
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        detections = await analyzer.listDetections();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.detections) {
+      detections = preBuiltIndex.detections;
     } else {
-      // Fetch from GitHub (custom repo or force_refresh)
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       detections = await analyzer.listDetections();
     }
 
+    // Merge overlay repositories over the base content
+    detections = await applyOverlays(detections, 'listDetections', (scanner) => scanner.listDetections(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     detections = filterDetections(detections, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(detections, args.limit, 'detections');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(detections, args), args);
   },
 };
 
@@ -75,40 +80,31 @@ export const getDetectionDetailsTool = {
   inputSchema: z.object({
     detection_id: z.string().describe('The detection rule ID'),
     force_refresh: z.boolean().optional().describe('Force refresh from GitHub'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { detection_id: string; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Detection | null> => {
-    // Check if using default repository and pre-built index is available
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(detectionSchema.nullable()),
+  execute: async (args: RepositoryArgs & { detection_id: string; force_refresh?: boolean }, context: OperationContext = {}): Promise<Detection | null> => {
+    const repoConfig = repositoryFromArgs(args);
 
     let detections: Detection[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      // Try to use pre-built index
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.detections) {
-        detections = preBuiltIndex.detections;
-      } else {
-        // Fall back to GitHub
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        detections = await analyzer.listDetections();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.detections) {
+      detections = preBuiltIndex.detections;
     } else {
-      // Fetch from GitHub (custom repo or force_refresh)
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       detections = await analyzer.listDetections();
     }
 
-    return detections.find(d => d.id === args.detection_id) || null;
+    // Merge overlay repositories over the base content
+    detections = await applyOverlays(detections, 'listDetections', (scanner) => scanner.listDetections(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
+    // Queries excluded from the pre-built index come from its query store
+    const detection = detections.find(d => d.id === args.detection_id);
+    return detection ? withIndexedQuery(detection) : null;
   },
 };
 
@@ -1,13 +1,19 @@
 /**
  * MCP Tools implementation for Microsoft Sentinel Solutions Analyzer
  *
- * This file consolidates and exports all 23 MCP tools organized by category:
+ * This file consolidates and exports all 26 MCP tools organized by category:
  * - Tools 1-6: Solution and Connector Analysis (solutionTools.ts)
  * - Tools 7-8: Detection Analysis (detectionTools.ts)
  * - Tools 9-10: Workbook Analysis (workbookTools.ts)
  * - Tools 11-23: Content Analysis (contentTools.ts)
+ * - Tool 24: Cache Management (cacheTools.ts)
+ * - Tool 25: Repository Status (repositoryTools.ts)
+ * - Tool 26: Index Management (indexTools.ts)
  */
 
+import { z } from 'zod';
+import { OperationContext } from '../types/operation.js';
+
 // Import solution analysis tools (Tools 1-6)
 import {
   analyzeSolutionsTool,
@@ -51,6 +57,24 @@ import {
   contentTools,
 } from './contentTools.js';
 
+// Import cache management tools (Tool 24)
+import {
+  clearCacheTool,
+  cacheTools,
+} from './cacheTools.js';
+
+// Import repository status tools (Tool 25)
+import {
+  getRateLimitStatusTool,
+  repositoryTools,
+} from './repositoryTools.js';
+
+// Import index management tools (Tool 26)
+import {
+  buildIndexTool,
+  indexTools,
+} from './indexTools.js';
+
 // Re-export individual tools for direct access
 export {
   // Solution tools (1-6)
@@ -83,6 +107,15 @@ export {
   listTutorialsTool,
   listDashboardsTool,
   listDataConnectorsTool,
+
+  // Cache tools (24)
+  clearCacheTool,
+
+  // Repository tools (25)
+  getRateLimitStatusTool,
+
+  // Index tools (26)
+  buildIndexTool,
 };
 
 // Re-export tool groups
@@ -91,12 +124,27 @@ export {
   detectionTools,
   workbookTools,
   contentTools,
+  cacheTools,
+  repositoryTools,
+  indexTools,
 };
 
 /**
- * Complete list of all 23 MCP tools
+ * A tool as the server and CLI call it: arguments are parsed with inputSchema
+ * and execute takes the parsed result
+ */
+export interface Tool<Schema extends z.ZodType = z.ZodType, Result = unknown> {
+  name: string;
+  description: string;
+  inputSchema: Schema;
+  outputSchema: z.ZodType;
+  execute(args: z.output<Schema>, context?: OperationContext): Promise<Result>;
+}
+
+/**
+ * Complete list of all 26 MCP tools
  */
-export const allTools = [
+export const allTools: Tool[] = [
   // Solution analysis tools (1-6)
   ...solutionTools,
 
@@ -108,4 +156,13 @@ export const allTools = [
 
   // Content analysis tools (11-23)
   ...contentTools,
+
+  // Cache management tools (24)
+  ...cacheTools,
+
+  // Repository status tools (25)
+  ...repositoryTools,
+
+  // Index management tools (26)
+  ...indexTools,
 ];
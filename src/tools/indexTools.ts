@@ -0,0 +1,49 @@
+/**
+ * Index Management Tools (Tool 26)
+ */
+
+import * as path from 'path';
+import { z } from 'zod';
+import { buildIndexResultSchema, toolOutput } from './outputSchemas.js';
+import { repositoryFromArgs, repositorySourceSchema, RepositoryArgs } from './schemas.js';
+import { OperationContext } from '../types/operation.js';
+import { repositoryKey } from '../repository/clientFactory.js';
+import { buildRepositoryIndex } from '../utils/indexRefresh.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('indexTools');
+
+/**
+ * Tool 26: Build a pre-built index
+ */
+export const buildIndexTool = {
+  name: 'build_index',
+  description: 'Build the pre-built index for the configured repository or any other repository, branch or ref, into the user-writable index directory (SENTINEL_INDEX_DIR). Later calls naming the same repository answer from it instead of a live scan. Patches the existing index with the changes since it was built when possible.',
+  inputSchema: z.object({
+    incremental: z.boolean().optional().default(true).describe('Patch the existing index with the changes since its commit when possible (default: true); false rebuilds it from scratch'),
+    ...repositorySourceSchema,
+    solutions_path: z.string().optional().describe('Path to solutions directory (default: Solutions)'),
+  }),
+  outputSchema: toolOutput(buildIndexResultSchema),
+  execute: async (args: RepositoryArgs & { incremental?: boolean; solutions_path?: string }, context: OperationContext = {}) => {
+    const repoConfig = repositoryFromArgs(args);
+
+    // A build already running for the repository is joined rather than repeated
+    const build = await buildRepositoryIndex(repoConfig, { incremental: args.incremental ?? true }, context);
+    log.info(`Built ${build.mode} index for ${repositoryKey(repoConfig)} in ${build.indexPath}`);
+
+    return {
+      repository: repositoryKey(repoConfig),
+      directory: path.dirname(build.indexPath),
+      mode: build.mode,
+      commit: build.index.repositoryCommit,
+      builtAt: build.index.generatedAt,
+      changedPaths: build.changedPaths,
+      solutionsAnalyzed: build.solutionsAnalyzed,
+      itemsRead: build.itemsRead,
+      stats: { ...build.index.stats },
+    };
+  },
+};
+
+export const indexTools = [buildIndexTool];
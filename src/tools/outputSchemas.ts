@@ -0,0 +1,254 @@
+/**
+ * Zod schemas describing MCP tool results
+ * Mirror the types in types/content.ts and types/index.ts so clients can
+ * consume structuredContent directly. Objects are loose so additional
+ * fields never fail client-side validation.
+ */
+
+import { z } from 'zod';
+
+const requiredDataConnectors = z
+  .array(z.looseObject({ connectorId: z.string(), dataTypes: z.array(z.string()) }))
+  .optional();
+
+/**
+ * Content type schemas
+ */
+export const detectionSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  severity: z.string().optional(),
+  status: z.string().optional(),
+  tactics: z.array(z.string()).optional(),
+  techniques: z.array(z.string()).optional(),
+  query: z.string().optional(),
+  queryFrequency: z.string().optional(),
+  queryPeriod: z.string().optional(),
+  triggerOperator: z.string().optional(),
+  triggerThreshold: z.number().optional(),
+  suppressionDuration: z.string().optional(),
+  entityMappings: z.array(z.any()).optional(),
+  customDetails: z.any().optional(),
+  requiredDataConnectors,
+  filePath: z.string().optional(),
+  solution: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const workbookSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  dataTypes: z.array(z.string()).optional(),
+  requiredDataConnectors,
+  filePath: z.string().optional(),
+  solution: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const huntingQuerySchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  tactics: z.array(z.string()).optional(),
+  techniques: z.array(z.string()).optional(),
+  query: z.string().optional(),
+  requiredDataConnectors,
+  filePath: z.string().optional(),
+  solution: z.string().optional(),
+  source: z.string().optional(),
+});
+
+/**
+ * Shared shape for simple content items (playbooks, parsers, watchlists, ...)
+ */
+export const contentItemSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  query: z.string().optional(),
+  filePath: z.string().optional(),
+  solution: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const watchlistSchema = contentItemSchema.extend({
+  alias: z.string().optional(),
+});
+
+export const notebookSchema = contentItemSchema.extend({
+  tags: z.array(z.string()).optional(),
+});
+
+export const asimContentSchema = contentItemSchema.extend({
+  type: z.enum(['Parser', 'Schema', 'Documentation']).optional(),
+});
+
+export const toolSchema = contentItemSchema.extend({
+  category: z.string().optional(),
+});
+
+export const dataConnectorSchema = contentItemSchema.extend({
+  connectorType: z.string().optional(),
+});
+
+/**
+ * Solution and connector analysis schemas
+ */
+export const tableMappingSchema = z.looseObject({
+  solution: z.string(),
+  solutionPath: z.string().optional(),
+  publisher: z.string(),
+  version: z.string(),
+  supportTier: z.string().optional(),
+  connectorId: z.string(),
+  connectorTitle: z.string(),
+  connectorDescription: z.string().optional(),
+  tableName: z.string(),
+  isUnique: z.boolean(),
+  detectionMethod: z.string().optional(),
+  solutionUrl: z.string().optional(),
+  connectorFileUrl: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const analysisResultSchema = z.looseObject({
+  mappings: z.array(tableMappingSchema).optional(),
+  issues: z.array(z.looseObject({ solution: z.string(), issueType: z.string(), message: z.string(), source: z.string().optional() })).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  summary: z.record(z.string(), z.any()).optional(),
+  topTables: z.array(z.looseObject({ table: z.string(), connectorCount: z.number() })).optional(),
+  issueBreakdown: z.record(z.string(), z.number()).optional(),
+});
+
+export const connectorTablesSchema = z.looseObject({
+  connectorId: z.string(),
+  connectorTitle: z.string(),
+  tables: z.array(z.looseObject({ tableName: z.string(), detectionMethod: z.string() })),
+  source: z.string().optional(),
+});
+
+export const searchResultSchema = z.looseObject({
+  solutions: z.array(
+    z.looseObject({
+      name: z.string(),
+      publisher: z.string(),
+      version: z.string(),
+      supportTier: z.string().optional(),
+      connectorCount: z.number(),
+      tableCount: z.number(),
+      source: z.string().optional(),
+    })
+  ),
+});
+
+export const solutionDetailsSchema = z.looseObject({
+  metadata: z.looseObject({
+    name: z.string(),
+    publisher: z.string(),
+    version: z.string(),
+    supportTier: z.string().optional(),
+    description: z.string().optional(),
+  }),
+  connectors: z.array(
+    z.looseObject({
+      id: z.string(),
+      title: z.string(),
+      description: z.string().optional(),
+      tables: z.array(z.string()),
+    })
+  ),
+  uniqueTables: z.array(z.string()),
+  githubUrl: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const tableInfoSchema = z.looseObject({
+  tableName: z.string(),
+  isCustomLog: z.boolean(),
+  connectors: z.array(
+    z.looseObject({
+      connectorId: z.string(),
+      connectorTitle: z.string(),
+      solution: z.string(),
+      source: z.string().optional(),
+    })
+  ),
+});
+
+export const validationResultSchema = z.looseObject({
+  isValid: z.boolean(),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+  extractedTables: z.array(z.string()),
+});
+
+export const clearCacheResultSchema = z.looseObject({
+  directory: z.string(),
+  entriesRemoved: z.number(),
+  bytesFreed: z.number(),
+});
+
+const rateLimitQuotaSchema = z.looseObject({
+  limit: z.number(),
+  remaining: z.number(),
+  used: z.number(),
+  resetAt: z.string(),
+});
+
+export const rateLimitStatusSchema = z.looseObject({
+  authenticated: z.boolean(),
+  source: z.enum(['api', 'headers']),
+  resources: z.record(z.string(), rateLimitQuotaSchema),
+  concurrency: z.number(),
+  pausedUntil: z.string().optional(),
+});
+
+export const buildIndexResultSchema = z.looseObject({
+  repository: z.string(),
+  directory: z.string(),
+  mode: z.enum(['full', 'incremental', 'unchanged']),
+  commit: z.string().optional(),
+  builtAt: z.string(),
+  changedPaths: z.number().optional(),
+  solutionsAnalyzed: z.number(),
+  itemsRead: z.number(),
+  stats: z.record(z.string(), z.number()),
+});
+
+export const indexStatusSchema = z.object({
+  source: z.enum(['bundled', 'cache']),
+  builtAt: z.string().optional(),
+  ageDays: z.number().optional(),
+  commit: z.string().optional(),
+  stale: z.boolean(),
+  refreshing: z.boolean(),
+  policy: z.enum(['warn', 'refresh', 'block']),
+});
+
+/**
+ * Page envelope returned by list_* tools
+ */
+export function pageSchema<T extends z.ZodType>(item: T) {
+  return z.object({
+    items: z.array(item),
+    total: z.number(),
+    next_cursor: z.string().optional(),
+  });
+}
+
+/**
+ * Wrap a result schema in the structuredContent envelope.
+ * structuredContent must be a JSON object, so every tool returns { result },
+ * plus any warnings that affected the result and the freshness of the
+ * pre-built index.
+ */
+export function toolOutput<T extends z.ZodType>(result: T) {
+  return z.object({
+    result,
+    warnings: z.array(z.string()).optional(),
+    index: indexStatusSchema.optional(),
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * Repository Status Tools (Tool 25)
+ */
+
+import { z } from 'zod';
+import { rateLimitStatusSchema, toolOutput } from './outputSchemas.js';
+import { OperationContext } from '../types/operation.js';
+import type { RateLimitStatus } from '../repository/githubClient.js';
+
+/**
+ * Tool 25: Get GitHub API rate limit status
+ */
+export const getRateLimitStatusTool = {
+  name: 'get_rate_limit_status',
+  description: 'Report the remaining GitHub API quota, when it resets, whether a token is configured and the fetch concurrency. Use before live scans (force_refresh or custom repositories).',
+  inputSchema: z.object({}),
+  outputSchema: toolOutput(rateLimitStatusSchema),
+  execute: async (_args: object, context: OperationContext = {}): Promise<RateLimitStatus> => {
+    const { GitHubClient } = await import('../repository/githubClient.js');
+    return new GitHubClient().getRateLimitStatus(context.signal);
+  },
+};
+
+export const repositoryTools = [getRateLimitStatusTool];
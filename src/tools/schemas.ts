@@ -3,27 +3,65 @@
  */
 
 import { z } from 'zod';
+import {
+  CONTENT_SOURCE_TYPES,
+  GITHUB_NAME_PATTERN,
+  isSafeRef,
+  ContentSourceType,
+  RepositoryAuth,
+  RepositoryConfig as SourceRepositoryConfig,
+} from '../types/repository.js';
 
 /**
- * Common repository configuration parameters
+ * Repository selection parameters, for tools that can read another repository,
+ * ref or local source than the configured one
  */
-export const repositoryParamsSchema = {
-  force_refresh: z
-    .boolean()
-    .optional()
-    .describe('Force refresh from GitHub (ignore pre-built index)'),
+export const repositorySourceSchema = {
   repository_owner: z
     .string()
+    .regex(GITHUB_NAME_PATTERN, 'expected a GitHub owner name')
     .optional()
     .describe('GitHub repository owner (default: Azure)'),
   repository_name: z
     .string()
+    .regex(GITHUB_NAME_PATTERN, 'expected a GitHub repository name')
     .optional()
     .describe('GitHub repository name (default: Azure-Sentinel)'),
   repository_branch: z
     .string()
+    .refine(isSafeRef, 'expected a branch name without "..", a leading "/" or control characters')
     .optional()
     .describe('Repository branch (default: master)'),
+  repository_ref: z
+    .string()
+    .refine(isSafeRef, 'expected a commit SHA, tag or branch without "..", a leading "/" or control characters')
+    .optional()
+    .describe('Commit SHA, tag or branch to pin reads to (default: latest commit on repository_branch)'),
+  repository_path: z
+    .string()
+    .optional()
+    .describe('Local checkout or .zip/.tar.gz archive to read instead of GitHub, for offline analysis (default: SENTINEL_REPO_PATH)'),
+  repository_type: z
+    .enum(CONTENT_SOURCE_TYPES)
+    .optional()
+    .describe('Content source type: github, local or archive (default: SENTINEL_REPO_TYPE, else inferred from repository_path)'),
+  repository_auth: z
+    .enum(['token', 'anonymous'])
+    .optional()
+    .describe("Read a GitHub repository with the server's token or anonymously, within what the access policy allows (default: the policy's auth, else token)"),
+};
+
+const repositoryArgsSchema = z.object(repositorySourceSchema);
+
+/**
+ * Common repository configuration parameters
+ */
+export const repositoryParamsSchema = {
+  force_refresh: z
+    .boolean()
+    .optional()
+    .describe('Force refresh from GitHub (ignore pre-built index)'),
+  ...repositorySourceSchema,
 };
 
 /**
@@ -34,11 +72,60 @@ export const solutionFilterSchema = {
 };
 
 /**
- * Type definitions for repository configuration
+ * Type definitions for repository selection
  */
-export interface RepositoryConfig {
-  force_refresh?: boolean;
+export interface RepositoryArgs {
   repository_owner?: string;
   repository_name?: string;
   repository_branch?: string;
+  repository_ref?: string;
+  repository_path?: string;
+  repository_type?: ContentSourceType;
+  repository_auth?: RepositoryAuth;
+}
+
+/**
+ * Type definitions for repository configuration
+ */
+export interface RepositoryConfig extends RepositoryArgs {
+  force_refresh?: boolean;
+}
+
+/**
+ * Repository named by a tool call's repository_* arguments
+ * Unset arguments stay undefined, so they fall back to the configured repository.
+ */
+export function repositoryFromArgs(args: RepositoryArgs & { solutions_path?: string }): Partial<SourceRepositoryConfig> {
+  return {
+    owner: args.repository_owner,
+    name: args.repository_name,
+    branch: args.repository_branch,
+    ref: args.repository_ref,
+    localPath: args.repository_path,
+    sourceType: args.repository_type,
+    solutionsPath: args.solutions_path,
+    auth: args.repository_auth,
+  };
+}
+
+/**
+ * Repository arguments among any tool's parsed arguments ({} for tools without them)
+ */
+export function pickRepositoryArgs(args: unknown): RepositoryArgs {
+  const parsed = repositoryArgsSchema.safeParse(args);
+  return parsed.success ? parsed.data : {};
+}
+
+/**
+ * True if a tool call names no repository, so it reads the configured one
+ */
+export function isDefaultRepository(args: RepositoryArgs): boolean {
+  return (
+    !args.repository_owner &&
+    !args.repository_name &&
+    !args.repository_branch &&
+    !args.repository_ref &&
+    !args.repository_path &&
+    !args.repository_type
+  );
 }
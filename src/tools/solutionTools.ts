@@ -3,9 +3,22 @@
  */
 
 import { z } from 'zod';
-import { RepositoryManager } from '../repository/repoManager.js';
+import {
+  analysisResultSchema,
+  connectorTablesSchema,
+  searchResultSchema,
+  solutionDetailsSchema,
+  tableInfoSchema,
+  validationResultSchema,
+  pageSchema,
+  toolOutput,
+} from './outputSchemas.js';
+import { isDefaultRepository, repositoryFromArgs, repositorySourceSchema, RepositoryArgs } from './schemas.js';
+import { createContentSource } from '../repository/clientFactory.js';
 import { SolutionLoader } from '../loaders/solutionLoader.js';
 import { SingleSolutionLoader } from '../loaders/singleSolutionLoader.js';
+import { applyAnalysisOverlays, analyzeSolutionWithOverlays } from '../loaders/overlayLoader.js';
+import { BASE_SOURCE } from '../repository/overlays.js';
 import {
   AnalysisResult,
   ConnectorTables,
@@ -16,21 +29,58 @@ import {
 } from '../types/index.js';
 import { extractTablesFromConnector } from '../loaders/tableExtractor.js';
 import { parseJsonTolerant } from '../loaders/jsonParser.js';
-import { loadPreBuiltIndex, isIndexStale } from '../utils/indexLoader.js';
+import { OperationContext } from '../types/operation.js';
+import { getPreBuiltIndex } from '../utils/indexRefresh.js';
+import { paginate, resolveCursor, Page } from '../utils/contentFilters.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('solutionTools');
 
 // Global cache for analysis results
 let cachedAnalysisResult: AnalysisResult | null = null;
 let cacheCommitHash: string | null = null;
-
-const repoManager = new RepositoryManager();
+// Pre-built index the cached results came from, if any
+let cachedIndex: AnalysisResult | null = null;
 
 /**
  * Helper: Ensure analysis has been run
  */
-export async function ensureAnalysis(): Promise<void> {
+export async function ensureAnalysis(context: OperationContext = {}): Promise<void> {
+  if (cachedIndex && cachedIndex !== (await getPreBuiltIndex(context))) {
+    // The pre-built index was refreshed since the results were cached
+    cachedAnalysisResult = null;
+    cachedIndex = null;
+  }
+  if (!cachedAnalysisResult) {
+    await runAnalysis({}, context);
+  }
+}
+
+/**
+ * Helper: Analysis results for the repository a tool call names
+ * The configured repository's results are cached; others are read from their
+ * pre-built index (build_index) or analyzed for the call.
+ */
+async function getAnalysis(args: RepositoryArgs, context: OperationContext): Promise<AnalysisResult> {
+  if (!isDefaultRepository(args)) {
+    return runAnalysis(args, context);
+  }
+
+  await ensureAnalysis(context);
+
   if (!cachedAnalysisResult) {
-    await analyzeSolutionsTool.execute({});
+    throw new Error('Analysis results not available');
   }
+  return cachedAnalysisResult;
+}
+
+/**
+ * Helper: Drop cached analysis results and repository contents
+ */
+export function resetAnalysisCache(): void {
+  cachedAnalysisResult = null;
+  cacheCommitHash = null;
+  cachedIndex = null;
 }
 
 /**
@@ -82,6 +132,55 @@ function getIssueBreakdown(result: AnalysisResult): Record<string, number> {
   return breakdown;
 }
 
+/**
+ * Helper: Analyze all solutions of a repository, caching the configured one's results
+ */
+async function runAnalysis(
+  args: RepositoryArgs & { force_refresh?: boolean; solutions_path?: string },
+  context: OperationContext
+): Promise<AnalysisResult> {
+  // Build repository config from args
+  const repoConfig = repositoryFromArgs(args);
+
+  // Try to use pre-built index first (unless force_refresh or custom repo)
+  const isDefaultRepo = isDefaultRepository(args);
+  if (!args.force_refresh && !cachedAnalysisResult && isDefaultRepo) {
+    const preBuiltIndex = await getPreBuiltIndex(context);
+    if (preBuiltIndex) {
+      cachedAnalysisResult = await applyAnalysisOverlays(preBuiltIndex, {}, context);
+      cachedIndex = preBuiltIndex;
+      return cachedAnalysisResult;
+    }
+  }
+
+  // Other repositories answer from an index built for them (build_index)
+  if (!args.force_refresh && !isDefaultRepo) {
+    const repositoryIndex = await getPreBuiltIndex(context, repoConfig);
+    if (repositoryIndex) {
+      return await applyAnalysisOverlays(repositoryIndex, { repository: repoConfig }, context);
+    }
+  }
+
+  // Run fresh analysis using GitHub API (or a local checkout)
+  log.info('Running fresh analysis from repository...');
+  const analyzer = new SolutionLoader(createContentSource(repoConfig), context);
+
+  const result = await applyAnalysisOverlays(
+    await analyzer.analyze(),
+    { refresh: args.force_refresh, repository: repoConfig },
+    context
+  );
+
+  // Update cache (only for default repo)
+  if (isDefaultRepo) {
+    cachedAnalysisResult = result;
+    cacheCommitHash = result.metadata.repositoryCommit || null;
+    cachedIndex = null;
+  }
+
+  return result;
+}
+
 /**
  * Tool 1: Analyze all solutions
  */
@@ -99,75 +198,19 @@ export const analyzeSolutionsTool = {
       .optional()
       .default('json')
       .describe('Output format for results'),
-    repository_owner: z
-      .string()
-      .optional()
-      .describe('GitHub repository owner (default: Azure)'),
-    repository_name: z
-      .string()
-      .optional()
-      .describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z
-      .string()
-      .optional()
-      .describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
     solutions_path: z
       .string()
       .optional()
       .describe('Path to solutions directory (default: Solutions)'),
   }),
-  execute: async (args: {
+  outputSchema: toolOutput(analysisResultSchema),
+  execute: async (args: RepositoryArgs & {
     force_refresh?: boolean;
     output_format?: 'json' | 'csv' | 'summary';
-    repository_owner?: string;
-    repository_name?: string;
-    repository_branch?: string;
     solutions_path?: string;
-  }): Promise<any> => {
-    // Build repository config from args
-    const repoConfig = {
-      owner: args.repository_owner,
-      name: args.repository_name,
-      branch: args.repository_branch,
-      solutionsPath: args.solutions_path,
-    };
-
-    // Try to use pre-built index first (unless force_refresh or custom repo)
-    const isDefaultRepo =
-      !args.repository_owner && !args.repository_name && !args.repository_branch;
-    if (!args.force_refresh && !cachedAnalysisResult && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex) {
-        // Check if index is stale (>7 days old)
-        if (isIndexStale(preBuiltIndex)) {
-          console.error(
-            'WARNING: Pre-built index is stale (>7 days). Use force_refresh: true for latest data.'
-          );
-        }
-
-        cachedAnalysisResult = preBuiltIndex;
-        return formatAnalysisResult(preBuiltIndex, args.output_format || 'json');
-      }
-    }
-
-    // Run fresh analysis using GitHub API
-    console.error('Running fresh analysis from GitHub...');
-    const github = new (await import('../repository/githubClient.js')).GitHubClient(
-      repoConfig
-    );
-    const analyzer = new SolutionLoader(github);
-
-    const result = await analyzer.analyze();
-
-    // Update cache (only for default repo)
-    if (isDefaultRepo) {
-      const currentCommit = await github.getLatestCommitSha();
-      cachedAnalysisResult = result;
-      cacheCommitHash = currentCommit;
-      cachedAnalysisResult.metadata.repositoryCommit = currentCommit;
-    }
-
-    return formatAnalysisResult(result, args.output_format || 'json');
+  }, context: OperationContext = {}): Promise<any> => {
+    return formatAnalysisResult(await runAnalysis(args, context), args.output_format || 'json');
   },
 };
 
@@ -179,15 +222,13 @@ export const getConnectorTablesTool = {
   description: 'Get table mappings for a specific connector ID',
   inputSchema: z.object({
     connector_id: z.string().describe('The connector ID to look up'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { connector_id: string }): Promise<ConnectorTables | null> => {
-    await ensureAnalysis();
+  outputSchema: toolOutput(connectorTablesSchema.nullable()),
+  execute: async (args: RepositoryArgs & { connector_id: string }, context: OperationContext = {}): Promise<ConnectorTables | null> => {
+    const analysis = await getAnalysis(args, context);
 
-    if (!cachedAnalysisResult) {
-      throw new Error('Analysis results not available');
-    }
-
-    const connectorMappings = cachedAnalysisResult.mappings.filter(
+    const connectorMappings = analysis.mappings.filter(
       (m) => m.connectorId === args.connector_id
     );
 
@@ -204,6 +245,7 @@ export const getConnectorTablesTool = {
       connectorId: args.connector_id,
       connectorTitle: connectorMappings[0].connectorTitle,
       tables,
+      source: connectorMappings[0].source,
     };
   },
 };
@@ -218,24 +260,24 @@ export const searchSolutionsTool = {
     query: z.string().describe('Search query'),
     publisher: z.string().optional().describe('Filter by publisher'),
     support_tier: z.string().optional().describe('Filter by support tier'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: {
+  outputSchema: toolOutput(searchResultSchema),
+  execute: async (args: RepositoryArgs & {
     query: string;
     publisher?: string;
     support_tier?: string;
-  }): Promise<SearchResult> => {
-    await ensureAnalysis();
-
-    if (!cachedAnalysisResult) {
-      throw new Error('Analysis results not available');
-    }
+    source?: string;
+  }, context: OperationContext = {}): Promise<SearchResult> => {
+    const analysis = await getAnalysis(args, context);
 
     const queryLower = args.query.toLowerCase();
 
     // Group by solution
     const solutionMap = new Map<string, any>();
 
-    cachedAnalysisResult.mappings.forEach((mapping) => {
+    analysis.mappings.forEach((mapping) => {
       if (!solutionMap.has(mapping.solution)) {
         solutionMap.set(mapping.solution, {
           name: mapping.solution,
@@ -244,10 +286,15 @@ export const searchSolutionsTool = {
           supportTier: mapping.supportTier,
           connectorIds: new Set<string>(),
           tables: new Set<string>(),
+          source: mapping.source,
         });
       }
 
       const sol = solutionMap.get(mapping.solution)!;
+      // A solution extended by an overlay is reported as coming from that overlay
+      if (mapping.source && mapping.source !== BASE_SOURCE) {
+        sol.source = mapping.source;
+      }
       sol.connectorIds.add(mapping.connectorId);
       sol.tables.add(mapping.tableName);
     });
@@ -257,8 +304,9 @@ export const searchSolutionsTool = {
       const matchesQuery = sol.name.toLowerCase().includes(queryLower);
       const matchesPublisher = !args.publisher || sol.publisher === args.publisher;
       const matchesTier = !args.support_tier || sol.supportTier === args.support_tier;
+      const matchesSource = !args.source || sol.source?.toLowerCase() === args.source.toLowerCase();
 
-      return matchesQuery && matchesPublisher && matchesTier;
+      return matchesQuery && matchesPublisher && matchesTier && matchesSource;
     });
 
     return {
@@ -269,6 +317,7 @@ export const searchSolutionsTool = {
         supportTier: sol.supportTier,
         connectorCount: sol.connectorIds.size,
         tableCount: sol.tables.size,
+        source: sol.source,
       })),
     };
   },
@@ -282,13 +331,22 @@ export const getSolutionDetailsTool = {
   description: 'Get detailed information about a specific solution (fast - only analyzes requested solution)',
   inputSchema: z.object({
     solution_name: z.string().describe('The solution name'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { solution_name: string }): Promise<SolutionDetails | null> => {
+  outputSchema: toolOutput(solutionDetailsSchema.nullable()),
+  execute: async (args: RepositoryArgs & { solution_name: string }, context: OperationContext = {}): Promise<SolutionDetails | null> => {
     // Use optimized single-solution analyzer - no need to analyze all 480!
-    const github = repoManager.getGitHubClient();
-    const analyzer = new SingleSolutionLoader(github);
-
-    return await analyzer.analyzeSolution(args.solution_name);
+    // A source per call reads the repository's latest commit (or the ref asked for)
+    const repoConfig = repositoryFromArgs(args);
+    const analyzer = new SingleSolutionLoader(createContentSource(repoConfig), context);
+
+    // Overlays are checked first so a private solution shadows an upstream one
+    return await analyzeSolutionWithOverlays(
+      args.solution_name,
+      () => analyzer.analyzeSolution(args.solution_name),
+      { repository: repoConfig },
+      context
+    );
   },
 };
 
@@ -297,24 +355,32 @@ export const getSolutionDetailsTool = {
  */
 export const listTablesTool = {
   name: 'list_tables',
-  description: 'Get all unique tables across all solutions',
+  description: 'Get all unique tables across all solutions. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     table_type: z
       .enum(['all', 'custom', 'standard'])
       .optional()
       .default('all')
       .describe('Filter by table type'),
+    source: z.string().optional().describe('Only include connectors from this content source ("upstream" or an overlay id)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { table_type?: 'all' | 'custom' | 'standard' }): Promise<TableInfo[]> => {
-    await ensureAnalysis();
+  outputSchema: toolOutput(pageSchema(tableInfoSchema)),
+  execute: async (args: RepositoryArgs & { table_type?: 'all' | 'custom' | 'standard'; source?: string; limit?: number; cursor?: string }, context: OperationContext = {}): Promise<Page<TableInfo>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
 
-    if (!cachedAnalysisResult) {
-      throw new Error('Analysis results not available');
-    }
+    const analysis = await getAnalysis(args, context);
 
     const tableMap = new Map<string, TableInfo>();
 
-    cachedAnalysisResult.mappings.forEach((mapping) => {
+    const mappings = args.source
+      ? analysis.mappings.filter((m) => m.source?.toLowerCase() === args.source!.toLowerCase())
+      : analysis.mappings;
+
+    mappings.forEach((mapping) => {
       if (!tableMap.has(mapping.tableName)) {
         tableMap.set(mapping.tableName, {
           tableName: mapping.tableName,
@@ -328,6 +394,7 @@ export const listTablesTool = {
         connectorId: mapping.connectorId,
         connectorTitle: mapping.connectorTitle,
         solution: mapping.solution,
+        source: mapping.source,
       });
     });
 
@@ -340,7 +407,7 @@ export const listTablesTool = {
       tables = tables.filter((t) => !t.isCustomLog);
     }
 
-    return tables;
+    return paginate(tables, args);
   },
 };
 
@@ -353,6 +420,7 @@ export const validateConnectorTool = {
   inputSchema: z.object({
     connector_json: z.string().describe('Connector JSON content to validate'),
   }),
+  outputSchema: toolOutput(validationResultSchema),
   execute: async (args: { connector_json: string }): Promise<ValidationResult> => {
     const errors: string[] = [];
     const warnings: string[] = [];
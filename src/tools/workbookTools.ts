@@ -3,58 +3,66 @@
  */
 
 import { z } from 'zod';
+import {
+  workbookSchema,
+  pageSchema,
+  toolOutput,
+} from './outputSchemas.js';
+import { repositoryFromArgs, repositorySourceSchema, RepositoryArgs } from './schemas.js';
 import { ContentScanner } from '../loaders/contentScanner.js';
+import { applyOverlays } from '../loaders/overlayLoader.js';
 import { Workbook, WorkbookFilters } from '../types/content.js';
-import { loadPreBuiltIndex } from '../utils/indexLoader.js';
-import { filterWorkbooks, applyLimit } from '../utils/contentFilters.js';
+import { OperationContext } from '../types/operation.js';
+import { getPreBuiltIndex } from '../utils/indexRefresh.js';
+import { filterWorkbooks, paginate, projectPage, resolveCursor, Page, ContentView } from '../utils/contentFilters.js';
 
 /**
  * Tool 9: List workbooks
  */
 export const listWorkbooksTool = {
   name: 'list_workbooks',
-  description: 'List and filter Microsoft Sentinel workbooks - search by solution, category, name, or file path. Returns max 100 results by default.',
+  description: 'List and filter Microsoft Sentinel workbooks - search by solution, category, name, or file path. Results are paginated: pass next_cursor back as cursor to get the next page.',
   inputSchema: z.object({
     solution: z.string().optional().describe('Filter by solution name'),
     category: z.string().optional().describe('Filter by workbook category'),
     name: z.string().optional().describe('Search in workbook name/title'),
     path_contains: z.string().optional().describe('Search in file path'),
-    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results to return (default: 1000, max: 5000)'),
+    source: z.string().optional().describe('Filter by content source ("upstream" or an overlay id from SENTINEL_OVERLAYS)'),
+    limit: z.coerce.number().optional().default(1000).describe('Maximum number of results per page (default: 1000, max: 5000)'),
+    cursor: z.string().optional().describe('Cursor from a previous response (next_cursor) to fetch the next page'),
+    fields: z.array(z.string()).optional().describe('Only return these fields (e.g., ["id", "name", "category", "dataTypes"]) - overrides view'),
+    view: z.enum(['minimal', 'standard', 'full']).optional().default('full').describe('Field preset: minimal (id, name, solution), standard (no required data connectors, descriptions shortened), full (default)'),
     force_refresh: z.boolean().optional().describe('Force refresh from GitHub'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: WorkbookFilters & { limit?: number; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Workbook[]> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(pageSchema(workbookSchema.partial())),
+  execute: async (args: RepositoryArgs & WorkbookFilters & { limit?: number; cursor?: string; fields?: string[]; view?: ContentView; force_refresh?: boolean }, context: OperationContext = {}): Promise<Page<Partial<Workbook>>> => {
+    // Restore filters when paging with a cursor
+    args = resolveCursor(args);
+
+    const repoConfig = repositoryFromArgs(args);
 
     let workbooks: Workbook[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.workbooks) {
-        workbooks = preBuiltIndex.workbooks;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        workbooks = await analyzer.listWorkbooks();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.workbooks) {
+      workbooks = preBuiltIndex.workbooks;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       workbooks = await analyzer.listWorkbooks();
     }
 
+    // Merge overlay repositories over the base content
+    workbooks = await applyOverlays(workbooks, 'listWorkbooks', (scanner) => scanner.listWorkbooks(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     // Apply filters using centralized utility
     workbooks = filterWorkbooks(workbooks, args);
 
-    // Apply limit using centralized utility
-    return applyLimit(workbooks, args.limit, 'workbooks');
+    // Return one projected page using centralized utilities
+    return projectPage(paginate(workbooks, args), args);
   },
 };
 
@@ -67,35 +75,28 @@ export const getWorkbookDetailsTool = {
   inputSchema: z.object({
     workbook_id: z.string().describe('The workbook ID or file path'),
     force_refresh: z.boolean().optional().describe('Force refresh from GitHub'),
-    repository_owner: z.string().optional().describe('GitHub repository owner (default: Azure)'),
-    repository_name: z.string().optional().describe('GitHub repository name (default: Azure-Sentinel)'),
-    repository_branch: z.string().optional().describe('Repository branch (default: master)'),
+    ...repositorySourceSchema,
   }),
-  execute: async (args: { workbook_id: string; force_refresh?: boolean; repository_owner?: string; repository_name?: string; repository_branch?: string }): Promise<Workbook | null> => {
-    const isDefaultRepo = !args.repository_owner && !args.repository_name && !args.repository_branch;
+  outputSchema: toolOutput(workbookSchema.nullable()),
+  execute: async (args: RepositoryArgs & { workbook_id: string; force_refresh?: boolean }, context: OperationContext = {}): Promise<Workbook | null> => {
+    const repoConfig = repositoryFromArgs(args);
 
     let workbooks: Workbook[];
 
-    if (!args.force_refresh && isDefaultRepo) {
-      const preBuiltIndex = loadPreBuiltIndex();
-      if (preBuiltIndex?.workbooks) {
-        workbooks = preBuiltIndex.workbooks;
-      } else {
-        const github = new (await import('../repository/githubClient.js')).GitHubClient();
-        const analyzer = new ContentScanner(github);
-        workbooks = await analyzer.listWorkbooks();
-      }
+    // Use the repository's pre-built index, unless force_refresh
+    const preBuiltIndex = args.force_refresh ? null : await getPreBuiltIndex(context, repoConfig);
+    if (preBuiltIndex?.workbooks) {
+      workbooks = preBuiltIndex.workbooks;
     } else {
-      const repoConfig = {
-        owner: args.repository_owner,
-        name: args.repository_name,
-        branch: args.repository_branch,
-      };
-      const github = new (await import('../repository/githubClient.js')).GitHubClient(repoConfig);
-      const analyzer = new ContentScanner(github);
+      // Fetch from the repository (no pre-built index, or force_refresh)
+      const github = (await import('../repository/clientFactory.js')).createContentSource(repoConfig);
+      const analyzer = new ContentScanner(github, context);
       workbooks = await analyzer.listWorkbooks();
     }
 
+    // Merge overlay repositories over the base content
+    workbooks = await applyOverlays(workbooks, 'listWorkbooks', (scanner) => scanner.listWorkbooks(), { refresh: args.force_refresh, repository: repoConfig }, context);
+
     return workbooks.find(w => w.id === args.workbook_id || w.filePath === args.workbook_id) || null;
   },
 };
@@ -0,0 +1,312 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ * Serves the same tool registry as stdio mode over HTTP so one shared
+ * instance can be used by many clients. Each client session gets its own
+ * Server and transport pair, tracked by the Mcp-Session-Id header.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server.js';
+import { restrictRepositoryPaths } from '../repository/accessPolicy.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('httpTransport');
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  path: string;
+  /** Host header names accepted (any port); loopback names when listening on loopback and unset */
+  allowedHosts: string[];
+  /** Origin header values accepted besides origins on an allowed host */
+  allowedOrigins: string[];
+  /** Sessions without a request for this long are closed */
+  sessionIdleMs: number;
+}
+
+/**
+ * Split a comma-separated environment variable into its values
+ */
+function listFromEnv(value?: string): string[] {
+  return (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * TCP port from an option or environment variable, or null if it is not one
+ */
+export function parsePort(value: string): number | null {
+  const port = /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+  return port >= 1 && port <= 65535 ? port : null;
+}
+
+export const DEFAULT_HTTP_CONFIG: HttpTransportConfig = {
+  host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+  port: parsePort(process.env.MCP_HTTP_PORT || '') ?? 3000,
+  path: process.env.MCP_HTTP_PATH || '/mcp',
+  allowedHosts: listFromEnv(process.env.MCP_HTTP_ALLOWED_HOSTS),
+  allowedOrigins: listFromEnv(process.env.MCP_HTTP_ALLOWED_ORIGINS),
+  sessionIdleMs: Number(process.env.MCP_HTTP_SESSION_IDLE_MINUTES || 30) * 60 * 1000,
+};
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Longest time between checks for idle sessions
+const SESSION_SWEEP_MS = 60 * 1000;
+
+/**
+ * Client session: its transport, and when it was last used
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  /** Requests and streams still open */
+  openRequests: number;
+}
+
+/**
+ * Count a request as session activity until its response closes
+ */
+function trackRequest(session: Session, res: ServerResponse): void {
+  session.openRequests++;
+  res.once('close', () => {
+    session.openRequests--;
+    session.lastActive = Date.now();
+  });
+}
+
+// Largest request body accepted, well above any tool call's arguments
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Thrown when a request body exceeds MAX_BODY_BYTES
+ */
+class BodyTooLargeError extends Error {}
+
+/**
+ * Read and parse a JSON request body, up to MAX_BODY_BYTES
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    throw new BodyTooLargeError();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Why a request's Host or Origin header is refused, or null if it is not
+ * A web page can reach the server through a DNS name rebound to its address
+ * (DNS rebinding); its requests then carry that name as Host and the page's
+ * Origin, which these checks reject.
+ */
+function checkRequestOrigin(req: IncomingMessage, allowedHosts: string[], allowedOrigins: string[]): string | null {
+  const hostname = (value: string) => {
+    try {
+      return new URL(value).hostname;
+    } catch {
+      return null;
+    }
+  };
+
+  if (allowedHosts.length > 0) {
+    const host = req.headers.host && hostname(`http://${req.headers.host}`);
+    if (!host || !allowedHosts.includes(host)) {
+      return `Invalid Host header: ${req.headers.host}`;
+    }
+  }
+
+  // Only browsers send Origin; other clients are not affected
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.includes(origin) && !allowedHosts.includes(hostname(origin) || '')) {
+    return `Invalid Origin header: ${origin}`;
+  }
+  return null;
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    })
+  );
+}
+
+/**
+ * Start the MCP server in Streamable HTTP mode
+ */
+export async function startHttpServer(
+  config: Partial<HttpTransportConfig> = {}
+): Promise<() => Promise<void>> {
+  const { host, port, path, sessionIdleMs, ...origins } = { ...DEFAULT_HTTP_CONFIG, ...config };
+
+  // Clients must not read the server's directories unless a policy allows it
+  restrictRepositoryPaths();
+
+  const loopback = host === 'localhost' || host === '::1' || host.startsWith('127.');
+  const allowedHosts = origins.allowedHosts.length > 0 ? origins.allowedHosts : loopback ? LOOPBACK_HOSTS : [];
+  if (allowedHosts.length === 0) {
+    log.warning(`Listening on ${host} without MCP_HTTP_ALLOWED_HOSTS - any Host header is accepted`);
+  }
+
+  // Active sessions keyed by session ID
+  const sessions = new Map<string, Session>();
+
+  // Close sessions idle for longer than sessionIdleMs; a client that comes back
+  // gets 404 for the session and starts a new one
+  const sweep = setInterval(() => {
+    const idleSince = Date.now() - sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActive < idleSince) {
+        log.info(`HTTP session expired (idle): ${id}`);
+        session.transport.close().catch((error) => log.error(`Failed to close HTTP session ${id}`, error));
+      }
+    }
+  }, Math.min(sessionIdleMs, SESSION_SWEEP_MS));
+  sweep.unref();
+
+  const handlePost = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader('Connection', 'close');
+        sendJsonRpcError(res, 413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        return;
+      }
+      sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON body');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session) {
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // New session - create a dedicated server for it
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const newSession = { transport, lastActive: Date.now(), openRequests: 0 };
+        sessions.set(id, newSession);
+        trackRequest(newSession, res);
+        log.info(`HTTP session started: ${id}`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        log.info(`HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    const server = createServer();
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSessionRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (!session) {
+      if (sessionId) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+      } else {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      }
+      return;
+    }
+
+    trackRequest(session, res);
+    await session.transport.handleRequest(req, res);
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname !== path) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      return;
+    }
+
+    const refused = checkRequestOrigin(req, allowedHosts, origins.allowedOrigins);
+    if (refused) {
+      sendJsonRpcError(res, 403, -32000, refused);
+      return;
+    }
+
+    try {
+      switch (req.method) {
+        case 'POST':
+          await handlePost(req, res);
+          break;
+        case 'GET':
+        case 'DELETE':
+          await handleSessionRequest(req, res);
+          break;
+        default:
+          res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+      }
+    } catch (error) {
+      log.error('Error handling MCP HTTP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  log.info(`Streamable HTTP transport listening on http://${host}:${port}${path}`);
+
+  // Shutdown function: close all sessions, then the listener
+  return async () => {
+    clearInterval(sweep);
+    for (const session of sessions.values()) {
+      await session.transport.close();
+    }
+    sessions.clear();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  };
+}
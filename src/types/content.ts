@@ -23,6 +23,8 @@ export interface Detection {
     dataTypes: string[];
   }>;
   filePath?: string;
+  /** Content source: "upstream" or an overlay id */
+  source?: string;
   solution?: string;
 }
 
@@ -37,6 +39,7 @@ export interface Workbook {
     dataTypes: string[];
   }>;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -52,6 +55,7 @@ export interface HuntingQuery {
     dataTypes: string[];
   }>;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -60,6 +64,7 @@ export interface Playbook {
   name: string;
   description?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -69,6 +74,7 @@ export interface Parser {
   description?: string;
   query?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -78,6 +84,7 @@ export interface Watchlist {
   description?: string;
   alias?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -87,6 +94,7 @@ export interface Notebook {
   description?: string;
   tags?: string[];
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -96,6 +104,7 @@ export interface ExplorationQuery {
   description?: string;
   query?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -105,6 +114,7 @@ export interface Function {
   description?: string;
   query?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -114,6 +124,7 @@ export interface ASIMContent {
   type?: 'Parser' | 'Schema' | 'Documentation';
   description?: string;
   filePath?: string;
+  source?: string;
 }
 
 export interface SummaryRule {
@@ -122,6 +133,7 @@ export interface SummaryRule {
   description?: string;
   query?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -131,6 +143,7 @@ export interface Tool {
   description?: string;
   category?: string;
   filePath?: string;
+  source?: string;
 }
 
 export interface Tutorial {
@@ -138,6 +151,7 @@ export interface Tutorial {
   name: string;
   description?: string;
   filePath?: string;
+  source?: string;
 }
 
 export interface Dashboard {
@@ -145,6 +159,7 @@ export interface Dashboard {
   name: string;
   description?: string;
   filePath?: string;
+  source?: string;
   solution?: string;
 }
 
@@ -154,6 +169,7 @@ export interface DataConnector {
   description?: string;
   connectorType?: string;
   filePath?: string;
+  source?: string;
 }
 
 export interface DetectionFilters {
@@ -165,6 +181,7 @@ export interface DetectionFilters {
   name?: string;
   query_contains?: string;
   path_contains?: string;
+  source?: string;
 }
 
 export interface WorkbookFilters {
@@ -172,6 +189,7 @@ export interface WorkbookFilters {
   category?: string;
   name?: string;
   path_contains?: string;
+  source?: string;
 }
 
 export interface HuntingQueryFilters {
@@ -181,4 +199,5 @@ export interface HuntingQueryFilters {
   name?: string;
   query_contains?: string;
   path_contains?: string;
+  source?: string;
 }
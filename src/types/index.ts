@@ -35,6 +35,8 @@ export interface ConnectorDefinition {
 
 export interface TableMapping {
   solution: string;
+  /** Repository path of the solution directory */
+  solutionPath?: string;
   publisher: string;
   version: string;
   supportTier?: string;
@@ -46,6 +48,8 @@ export interface TableMapping {
   detectionMethod?: string;
   solutionUrl?: string;
   connectorFileUrl?: string;
+  /** Content source: "upstream" or an overlay id */
+  source?: string;
 }
 
 export interface AnalysisIssue {
@@ -54,6 +58,7 @@ export interface AnalysisIssue {
   issueType: IssueType;
   message: string;
   filePath?: string;
+  source?: string;
 }
 
 export type IssueType =
@@ -108,6 +113,8 @@ export interface AnalysisResult {
     totalDataConnectors?: number;
     analysisDate: string;
     repositoryCommit?: string;
+    /** Repository and ref the content was read from (see repositoryKey) */
+    repository?: string;
     preBuiltAt?: string;
     version?: string;
   };
@@ -120,6 +127,7 @@ export interface ConnectorTables {
     tableName: string;
     detectionMethod: string;
   }>;
+  source?: string;
 }
 
 export interface SolutionDetails {
@@ -132,6 +140,7 @@ export interface SolutionDetails {
   }>;
   uniqueTables: string[];
   githubUrl?: string;
+  source?: string;
 }
 
 export interface TableInfo {
@@ -141,6 +150,7 @@ export interface TableInfo {
     connectorId: string;
     connectorTitle: string;
     solution: string;
+    source?: string;
   }>;
 }
 
@@ -152,6 +162,7 @@ export interface SearchResult {
     supportTier?: string;
     connectorCount: number;
     tableCount: number;
+    source?: string;
   }>;
 }
 
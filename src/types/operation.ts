@@ -0,0 +1,18 @@
+/**
+ * Per-request operation context
+ * Carries cancellation and progress reporting from the MCP request
+ * down through tools, loaders and the GitHub client.
+ */
+
+/**
+ * Progress callback - mirrors MCP progress notification fields
+ */
+export type ProgressCallback = (progress: number, total?: number, message?: string) => void;
+
+export interface OperationContext {
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+
+  /** Set when the client supplied a progressToken */
+  onProgress?: ProgressCallback;
+}
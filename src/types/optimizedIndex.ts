@@ -61,13 +61,116 @@ export interface LightweightPlaybook {
   solution?: string;
 }
 
+export interface LightweightWatchlist {
+  id: string;
+  name: string;
+  description?: string;
+  alias?: string;
+  filePath?: string;
+  solution?: string;
+}
+
+export interface LightweightNotebook {
+  id: string;
+  name: string;
+  description?: string;
+  tags?: string[];
+  filePath?: string;
+  solution?: string;
+}
+
+export interface LightweightExplorationQuery {
+  id: string;
+  name: string;
+  description?: string;
+  queryHash?: string;
+  querySize?: number;
+  filePath?: string;
+  solution?: string;
+}
+
+export interface LightweightFunction {
+  id: string;
+  name: string;
+  description?: string;
+  queryHash?: string;
+  querySize?: number;
+  filePath?: string;
+  solution?: string;
+}
+
+export interface LightweightASIMContent {
+  id: string;
+  name: string;
+  type?: 'Parser' | 'Schema' | 'Documentation';
+  description?: string;
+  filePath?: string;
+}
+
+export interface LightweightSummaryRule {
+  id: string;
+  name: string;
+  description?: string;
+  queryHash?: string;
+  querySize?: number;
+  filePath?: string;
+  solution?: string;
+}
+
+export interface LightweightTool {
+  id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  filePath?: string;
+}
+
+export interface LightweightTutorial {
+  id: string;
+  name: string;
+  description?: string;
+  filePath?: string;
+}
+
+export interface LightweightDashboard {
+  id: string;
+  name: string;
+  description?: string;
+  filePath?: string;
+  solution?: string;
+}
+
+export interface LightweightDataConnector {
+  id: string;
+  name: string;
+  description?: string;
+  connectorType?: string;
+  filePath?: string;
+}
+
+/**
+ * Current optimized index format
+ * - 2.x: detections, hunting queries, workbooks, playbooks and parsers
+ * - 3.x: every content type
+ */
+export const OPTIMIZED_INDEX_VERSION = '3.0.0';
+
+/**
+ * File names of an index and its query store within an index directory
+ */
+export const INDEX_FILE = 'pre-built-index.json';
+export const QUERY_STORE_FILE = 'pre-built-queries.json.gz';
+
 /**
  * Optimized index with separated metadata and content
+ * Fields marked v3 are absent from 2.x indexes.
  */
 export interface OptimizedIndex {
   version: string;
   generatedAt: string;
   repositoryCommit?: string;
+  /** Repository and ref the index was built from (see repositoryKey) */
+  repository?: string;
 
   // Summary statistics
   stats: {
@@ -79,6 +182,17 @@ export interface OptimizedIndex {
     totalHuntingQueries: number;
     totalPlaybooks: number;
     totalParsers: number;
+    // v3
+    totalWatchlists?: number;
+    totalNotebooks?: number;
+    totalExplorationQueries?: number;
+    totalFunctions?: number;
+    totalASIMContent?: number;
+    totalSummaryRules?: number;
+    totalTools?: number;
+    totalTutorials?: number;
+    totalDashboards?: number;
+    totalDataConnectors?: number;
   };
 
   // Lightweight content (queries excluded)
@@ -88,22 +202,43 @@ export interface OptimizedIndex {
     workbooks: LightweightWorkbook[];
     playbooks: LightweightPlaybook[];
     parsers: LightweightParser[];
+    // v3
+    watchlists?: LightweightWatchlist[];
+    notebooks?: LightweightNotebook[];
+    explorationQueries?: LightweightExplorationQuery[];
+    functions?: LightweightFunction[];
+    asimContent?: LightweightASIMContent[];
+    summaryRules?: LightweightSummaryRule[];
+    tools?: LightweightTool[];
+    tutorials?: LightweightTutorial[];
+    dashboards?: LightweightDashboard[];
+    dataConnectors?: LightweightDataConnector[];
   };
 
   // Full connector-table mappings (smaller dataset)
   mappings: Array<{
     solution: string;
+    solutionPath?: string; // v3, lets incremental builds replace a solution's mappings
     connectorId: string;
     connectorTitle: string;
     tableName: string;
   }>;
 
-  // Query lookup table (loaded on-demand)
-  queryIndex?: {
-    [hash: string]: {
-      filePath: string;
-      type: 'detection' | 'hunting' | 'parser' | 'function';
-    };
+  // Sidecar file with the excluded queries, loaded on demand (v3)
+  queryStore?: {
+    file: string;
+    count: number;
+  };
+}
+
+/**
+ * Sidecar query store: gzipped JSON of query text keyed by the queryHash
+ * recorded on lightweight items
+ */
+export interface QueryStore {
+  version: string;
+  queries: {
+    [hash: string]: string;
   };
 }
 
@@ -1,12 +1,56 @@
 /**
- * Repository configuration types
+ * Repository configuration and content source types
  */
 
+/**
+ * Where repository content is read from
+ * - github: GitHub API and raw file URLs
+ * - local: a checkout on disk
+ * - archive: a .zip or .tar.gz snapshot of the repository
+ */
+export type ContentSourceType = 'github' | 'local' | 'archive';
+
+export const CONTENT_SOURCE_TYPES: ContentSourceType[] = ['github', 'local', 'archive'];
+
+/**
+ * Whether GitHub requests send the configured token or are made anonymously
+ */
+export type RepositoryAuth = 'token' | 'anonymous';
+
+/**
+ * GitHub owner and repository names: letters, digits, "_", "." and "-", never ".."
+ */
+export const GITHUB_NAME_PATTERN = /^(?!.*\.\.)[A-Za-z0-9_.-]+$/;
+
+/**
+ * Whether a branch, tag or commit name is safe to place in a GitHub URL:
+ * no "..", leading "/" or control characters, which could point the request
+ * at another repository once the URL is normalized
+ */
+export function isSafeRef(ref: string): boolean {
+  // eslint-disable-next-line no-control-regex
+  return ref.length > 0 && !ref.includes('..') && !ref.startsWith('/') && !/[\x00-\x1f\x7f\\]/.test(ref);
+}
+
 export interface RepositoryConfig {
   owner: string;
   name: string;
   branch: string;
   solutionsPath: string;
+  /** Commit SHA, tag or branch to read instead of the branch head (GitHub sources) */
+  ref?: string;
+  /** Source type - inferred from localPath when omitted */
+  sourceType?: ContentSourceType;
+  /** Local checkout directory or archive file (local and archive sources) */
+  localPath?: string;
+  /** GitHub API base URL, e.g. https://ghe.example.com/api/v3 for GitHub Enterprise Server */
+  apiUrl?: string;
+  /** Raw file base URL - derived from apiUrl when omitted */
+  rawUrl?: string;
+  /** Send the configured token (default) or read anonymously (GitHub sources) */
+  auth?: RepositoryAuth;
+  /** Most files a client may download before failing the request (GitHub sources) */
+  maxFiles?: number;
 }
 
 export const DEFAULT_REPOSITORY_CONFIG: RepositoryConfig = {
@@ -14,4 +58,78 @@ export const DEFAULT_REPOSITORY_CONFIG: RepositoryConfig = {
   name: process.env.SENTINEL_REPO_NAME || 'Azure-Sentinel',
   branch: process.env.SENTINEL_REPO_BRANCH || 'master',
   solutionsPath: process.env.SENTINEL_SOLUTIONS_PATH || 'Solutions',
+  ref: process.env.SENTINEL_REPO_REF || undefined,
+  sourceType: (process.env.SENTINEL_REPO_TYPE as ContentSourceType) || undefined,
+  localPath: process.env.SENTINEL_REPO_PATH || undefined,
+  apiUrl: process.env.SENTINEL_GITHUB_API_URL || undefined,
+  rawUrl: process.env.SENTINEL_GITHUB_RAW_URL || undefined,
 };
+
+/**
+ * Entry in a repository tree (GitHub git/trees format)
+ */
+export interface TreeItem {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree';
+  sha: string;
+  size?: number;
+  url: string;
+}
+
+export interface RepositoryTree {
+  sha: string;
+  url: string;
+  tree: TreeItem[];
+  truncated: boolean;
+}
+
+/**
+ * Read access to a Sentinel content repository
+ * Loaders and scanners only depend on this interface, so content can come
+ * from GitHub, a local checkout or an archive snapshot.
+ */
+export interface ContentSource {
+  /** Repository configuration this source was created with */
+  getConfig(): RepositoryConfig;
+
+  /**
+   * Commit the content corresponds to, or 'unknown'
+   * Resolved once per source, so every read comes from the same snapshot.
+   */
+  getLatestCommitSha(signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Paths added, modified or removed between baseCommit and the content
+   * (both sides of a rename), or null if the source cannot tell
+   */
+  getChangedPaths(baseCommit: string, signal?: AbortSignal): Promise<string[] | null>;
+
+  /** Read a file by repository-relative path */
+  getFileContent(path: string, signal?: AbortSignal): Promise<string>;
+
+  /** List the direct children of a directory */
+  listDirectory(path: string, signal?: AbortSignal): Promise<TreeItem[]>;
+
+  /** Full recursive tree of the repository */
+  getTree(treeSha?: string, signal?: AbortSignal): Promise<RepositoryTree>;
+
+  /**
+   * Every item below a directory, with repository-relative paths
+   * Lists only that directory, so callers interested in one solution do not
+   * fetch the whole tree. Empty if the directory does not exist.
+   */
+  getSubtree(dirPath: string, signal?: AbortSignal): Promise<TreeItem[]>;
+
+  /** Blobs in a tree whose path matches pattern */
+  filterTreeByPattern(tree: RepositoryTree, pattern: RegExp): TreeItem[];
+
+  /** Drop cached file contents and listings */
+  clearCache(): void;
+
+  /** Browsable URL for a directory */
+  getDirectoryUrl(path: string): string;
+
+  /** Browsable URL for a file */
+  getFileUrl(path: string): string;
+}
@@ -0,0 +1,138 @@
+/**
+ * Bounded concurrency and cancellation helpers for repository fetching
+ *
+ * SENTINEL_FETCH_CONCURRENCY sets how many files are fetched at once (default: 8).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { setTimeout as delay } from 'timers/promises';
+import { OperationContext } from '../types/operation.js';
+
+export const FETCH_CONCURRENCY = Math.max(1, Number(process.env.SENTINEL_FETCH_CONCURRENCY) || 8);
+
+/**
+ * Runs a task once a slot in the pool is free
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a pool that runs at most `concurrency` tasks at a time, in FIFO order
+ */
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active < concurrency && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
+
+/**
+ * Wait for ms milliseconds, rejecting with the abort reason if signal fires
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  try {
+    await delay(ms, undefined, { signal });
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  }
+}
+
+/**
+ * Wait for work started elsewhere, giving up (but letting it finish) if the
+ * request is cancelled
+ */
+export function waitUnlessAborted<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  signal?.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Work shared by every caller that joins it
+ */
+export interface SharedWork<T> {
+  /** Aborted once every caller has given up before the work settled */
+  signal: AbortSignal;
+  /** Wait for the work, giving up alone when signal fires */
+  join(signal?: AbortSignal): Promise<T>;
+}
+
+/**
+ * Start work for several callers, none of which owns it
+ * The work runs with its own signal, aborted only when the last caller
+ * waiting for it is cancelled, so one caller cancelling does not fail the
+ * others. Start a new one in place of work whose signal is aborted.
+ */
+export function shareWork<T>(start: (signal: AbortSignal) => Promise<T>): SharedWork<T> {
+  const controller = new AbortController();
+  let settled = false;
+  let waiters = 0;
+  const work = start(controller.signal).finally(() => {
+    settled = true;
+  });
+  work.catch(() => undefined); // Reported to the callers that wait for it
+
+  return {
+    signal: controller.signal,
+    join(signal?: AbortSignal): Promise<T> {
+      signal?.throwIfAborted();
+      waiters++;
+      return waitUnlessAborted(work, signal).finally(() => {
+        if (--waiters === 0 && !settled) {
+          controller.abort(signal?.reason);
+        }
+      });
+    },
+  };
+}
+
+// Controller that fails the request currently running, set by abortable()
+const requestScope = new AsyncLocalStorage<AbortController>();
+
+/**
+ * Run a request so code below it can fail the whole request with abortRequest()
+ * fn receives a context whose signal also fires on the client's cancellation.
+ */
+export function abortable<T>(context: OperationContext, fn: (context: OperationContext) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const signal = context.signal ? AbortSignal.any([context.signal, controller.signal]) : controller.signal;
+  return requestScope.run(controller, () => fn({ ...context, signal }));
+}
+
+/**
+ * Abort the current request with reason as its error
+ * Loaders treat an aborted signal as fatal rather than skipping one file, so
+ * the reason reaches the caller. Outside abortable() this does nothing.
+ */
+export function abortRequest(reason: Error): void {
+  requestScope.getStore()?.abort(reason);
+}
+
+/**
+ * Run background work outside the current request, so finishing or failing
+ * the request does not affect it
+ */
+export function detached<T>(fn: () => T): T {
+  return requestScope.exit(fn);
+}
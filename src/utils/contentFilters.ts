@@ -4,6 +4,33 @@
  */
 
 import { Detection, HuntingQuery, Workbook, Playbook, Parser } from '../types/content.js';
+import { createLogger } from './logger.js';
+import { getIndexedQuery } from './indexLoader.js';
+
+const log = createLogger('contentFilters');
+
+/**
+ * Keep items whose KQL contains term (case-insensitive)
+ * Queries the optimized index excludes are read from its query store; without
+ * one the filter is skipped with a warning naming the alternatives.
+ */
+function filterByQuery<T extends { query?: string }>(items: T[], term: string, alternatives: string): T[] {
+  const searchTerm = term.toLowerCase();
+  const queries = items.map((item) => getIndexedQuery(item));
+
+  if (!queries.some((query) => query !== undefined)) {
+    // Optimized index without a query store
+    log.resultWarning(
+      'Query content search not available: the pre-built index has no query store, so query_contains was ignored. ' +
+        'Use force_refresh: true to fetch from GitHub and search query content (takes 30-60 seconds), ' +
+        `or search by ${alternatives} instead.`
+    );
+    // Don't filter - return results based on other criteria
+    return items;
+  }
+
+  return items.filter((_, i) => queries[i]?.toLowerCase().includes(searchTerm));
+}
 
 /**
  * Apply filters to detections
@@ -19,6 +46,7 @@ export function filterDetections(
     name?: string;
     query_contains?: string;
     path_contains?: string;
+    source?: string;
   }
 ): Detection[] {
   let filtered = detections;
@@ -60,19 +88,7 @@ export function filterDetections(
   }
 
   if (filters.query_contains) {
-    const searchTerm = filters.query_contains.toLowerCase();
-    const hasQueryContent = filtered.some(d => d.query !== undefined);
-
-    if (!hasQueryContent) {
-      // Optimized index - queries excluded
-      console.error('⚠️  Query content search not available: The optimized index excludes KQL queries for token efficiency.');
-      console.error('    Use force_refresh: true to fetch from GitHub and search query content (takes 30-60 seconds).');
-      console.error('    Tip: Try searching by name, path_contains, solution, tactic, technique, severity, or status instead.');
-      // Don't filter - return results based on other criteria
-    } else {
-      // Full index with queries - apply filter
-      filtered = filtered.filter(d => d.query && d.query.toLowerCase().includes(searchTerm));
-    }
+    filtered = filterByQuery(filtered, filters.query_contains, 'name, path_contains, solution, tactic, technique, severity, or status');
   }
 
   if (filters.path_contains) {
@@ -81,6 +97,12 @@ export function filterDetections(
     );
   }
 
+  if (filters.source) {
+    filtered = filtered.filter(d =>
+      d.source?.toLowerCase() === filters.source!.toLowerCase()
+    );
+  }
+
   return filtered;
 }
 
@@ -96,6 +118,7 @@ export function filterHuntingQueries(
     name?: string;
     query_contains?: string;
     path_contains?: string;
+    source?: string;
   }
 ): HuntingQuery[] {
   let filtered = queries;
@@ -125,19 +148,7 @@ export function filterHuntingQueries(
   }
 
   if (filters.query_contains) {
-    const searchTerm = filters.query_contains.toLowerCase();
-    const hasQueryContent = filtered.some(q => q.query !== undefined);
-
-    if (!hasQueryContent) {
-      // Optimized index - queries excluded
-      console.error('⚠️  Query content search not available: The optimized index excludes KQL queries for token efficiency.');
-      console.error('    Use force_refresh: true to fetch from GitHub and search query content (takes 30-60 seconds).');
-      console.error('    Tip: Try searching by name, path_contains, solution, tactic, or technique instead.');
-      // Don't filter - return results based on other criteria
-    } else {
-      // Full index with queries - apply filter
-      filtered = filtered.filter(q => q.query && q.query.toLowerCase().includes(searchTerm));
-    }
+    filtered = filterByQuery(filtered, filters.query_contains, 'name, path_contains, solution, tactic, or technique');
   }
 
   if (filters.path_contains) {
@@ -146,18 +157,25 @@ export function filterHuntingQueries(
     );
   }
 
+  if (filters.source) {
+    filtered = filtered.filter(q =>
+      q.source?.toLowerCase() === filters.source!.toLowerCase()
+    );
+  }
+
   return filtered;
 }
 
 /**
  * Apply generic filters to any content type
  */
-export function filterGenericContent<T extends { solution?: string; name?: string; filePath?: string }>(
+export function filterGenericContent<T extends { solution?: string; name?: string; filePath?: string; source?: string }>(
   items: T[],
   filters: {
     solution?: string;
     name?: string;
     path_contains?: string;
+    source?: string;
   }
 ): T[] {
   let filtered = items;
@@ -180,9 +198,34 @@ export function filterGenericContent<T extends { solution?: string; name?: strin
     );
   }
 
+  if (filters.source) {
+    filtered = filtered.filter(item =>
+      item.source?.toLowerCase() === filters.source!.toLowerCase()
+    );
+  }
+
   return filtered;
 }
 
+/**
+ * Apply generic filters plus query_contains to content with KQL queries
+ */
+export function filterQueryContent<T extends { solution?: string; name?: string; filePath?: string; source?: string; query?: string }>(
+  items: T[],
+  filters: {
+    solution?: string;
+    name?: string;
+    query_contains?: string;
+    path_contains?: string;
+    source?: string;
+  }
+): T[] {
+  const filtered = filterGenericContent(items, filters);
+  return filters.query_contains
+    ? filterByQuery(filtered, filters.query_contains, 'name, path_contains, or solution')
+    : filtered;
+}
+
 /**
  * Apply filters to workbooks
  */
@@ -193,6 +236,7 @@ export function filterWorkbooks(
     category?: string;
     name?: string;
     path_contains?: string;
+    source?: string;
   }
 ): Workbook[] {
   let filtered = workbooks;
@@ -221,6 +265,12 @@ export function filterWorkbooks(
     );
   }
 
+  if (filters.source) {
+    filtered = filtered.filter(w =>
+      w.source?.toLowerCase() === filters.source!.toLowerCase()
+    );
+  }
+
   return filtered;
 }
 
@@ -233,6 +283,7 @@ export function filterPlaybooks(
     solution?: string;
     name?: string;
     path_contains?: string;
+    source?: string;
   }
 ): Playbook[] {
   return filterGenericContent(playbooks, filters);
@@ -246,26 +297,156 @@ export function filterParsers(
   filters: {
     solution?: string;
     name?: string;
+    query_contains?: string;
     path_contains?: string;
+    source?: string;
   }
 ): Parser[] {
-  return filterGenericContent(parsers, filters);
+  return filterQueryContent(parsers, filters);
 }
 
 /**
- * Apply result limiting with user feedback
+ * Page of results returned by every list_* tool
  */
-export function applyLimit<T>(
+export interface Page<T> {
+  items: T[];
+  total: number;
+  next_cursor?: string;
+}
+
+/**
+ * Arguments that control paging rather than which items match
+ * force_refresh and the repository arguments stay in the cursor: they choose
+ * where the items are read from, so every page must read the same source.
+ */
+const PAGING_ARGS = new Set(['cursor', 'limit']);
+
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_PAGE_SIZE = 5000;
+
+/**
+ * Decode an opaque cursor into the filter set and offset it was issued for
+ */
+function decodeCursor(cursor: string): { filters: Record<string, unknown>; offset: number } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded?.o !== 'number' || typeof decoded?.f !== 'object') {
+      throw new Error('malformed');
+    }
+    return { filters: decoded.f, offset: decoded.o };
+  } catch {
+    throw new Error('Invalid cursor: pass the next_cursor value from a previous response unchanged');
+  }
+}
+
+/**
+ * Encode the filter set and offset into an opaque cursor
+ */
+function encodeCursor(filters: Record<string, unknown>, offset: number): string {
+  return Buffer.from(JSON.stringify({ f: filters, o: offset }), 'utf-8').toString('base64url');
+}
+
+/**
+ * Restore the filter set from a cursor, so later pages match the first
+ * Filters carried by the cursor take precedence over any passed alongside it
+ */
+export function resolveCursor<T extends { cursor?: string }>(args: T): T {
+  if (!args.cursor) {
+    return args;
+  }
+
+  return { ...args, ...decodeCursor(args.cursor).filters };
+}
+
+/**
+ * Return one page of results with the total and a cursor for the next page
+ */
+export function paginate<T>(
   items: T[],
-  limit: number | undefined,
-  contentType: string
-): T[] {
-  const totalResults = items.length;
-  const effectiveLimit = Math.min(limit || 1000, 5000);
+  args: { cursor?: string; limit?: number }
+): Page<T> {
+  const total = items.length;
+  const pageSize = Math.min(args.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const offset = args.cursor ? decodeCursor(args.cursor).offset : 0;
+  const end = offset + pageSize;
+
+  const filters = Object.fromEntries(
+    Object.entries(args).filter(([key, value]) => !PAGING_ARGS.has(key) && value !== undefined)
+  );
+
+  return {
+    items: items.slice(offset, end),
+    total,
+    next_cursor: end < total ? encodeCursor(filters, end) : undefined,
+  };
+}
 
-  if (totalResults > effectiveLimit) {
-    console.error(`⚠️  Returning ${effectiveLimit} of ${totalResults} ${contentType}. Use 'limit' parameter to adjust (max: 5000).`);
+/**
+ * Field presets for list_* content tools
+ */
+export type ContentView = 'minimal' | 'standard' | 'full';
+
+const MINIMAL_FIELDS = ['id', 'name', 'solution'];
+
+/**
+ * Fields dropped by the standard view - KQL and nested rule configuration,
+ * matching the Lightweight* shapes in the optimized index
+ */
+const HEAVY_FIELDS = new Set([
+  'query',
+  'queryFrequency',
+  'queryPeriod',
+  'triggerOperator',
+  'triggerThreshold',
+  'suppressionDuration',
+  'entityMappings',
+  'customDetails',
+  'requiredDataConnectors',
+]);
+
+const STANDARD_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Project a single item to the requested fields or view
+ */
+function projectItem<T extends object>(
+  item: T,
+  args: { fields?: string[]; view?: ContentView }
+): Partial<T> {
+  const entries = Object.entries(item);
+
+  if (args.fields && args.fields.length > 0) {
+    return Object.fromEntries(entries.filter(([key]) => args.fields!.includes(key))) as Partial<T>;
   }
 
-  return items.slice(0, effectiveLimit);
+  switch (args.view) {
+    case 'minimal':
+      return Object.fromEntries(entries.filter(([key]) => MINIMAL_FIELDS.includes(key))) as Partial<T>;
+    case 'standard':
+      return Object.fromEntries(
+        entries
+          .filter(([key]) => !HEAVY_FIELDS.has(key))
+          .map(([key, value]) =>
+            key === 'description' && typeof value === 'string' && value.length > STANDARD_DESCRIPTION_LENGTH
+              ? [key, value.substring(0, STANDARD_DESCRIPTION_LENGTH) + '...']
+              : [key, value]
+          )
+      ) as Partial<T>;
+    default:
+      return item;
+  }
+}
+
+/**
+ * Apply field projection to a page of content items
+ * An explicit fields list takes precedence over the view preset
+ */
+export function projectPage<T extends object>(
+  page: Page<T>,
+  args: { fields?: string[]; view?: ContentView }
+): Page<Partial<T>> {
+  return {
+    ...page,
+    items: page.items.map((item) => projectItem(item, args)),
+  };
 }
@@ -0,0 +1,329 @@
+/**
+ * Pre-built index pipeline: analyzes solutions, scans every content type and
+ * writes the optimized index with its query store to a directory
+ *
+ * Incremental builds patch the index already in the directory instead: only
+ * the solutions and content files changed since its repositoryCommit are
+ * re-read. They fall back to a full build when the changes cannot be listed.
+ * Files are written under a temporary name and renamed into place, so a
+ * reader never sees a partly written index.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { SolutionLoader } from '../loaders/solutionLoader.js';
+import { ContentScanner, isInScope } from '../loaders/contentScanner.js';
+import { OptimizedIndexBuilder } from './optimizedIndexBuilder.js';
+import {
+  OptimizedIndex,
+  OPTIMIZED_INDEX_VERSION,
+  QueryStore,
+  INDEX_FILE,
+  QUERY_STORE_FILE,
+} from '../types/optimizedIndex.js';
+import { ContentSource } from '../types/repository.js';
+import { repositoryKey } from '../repository/clientFactory.js';
+import { OperationContext, ProgressCallback } from '../types/operation.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('indexBuilder');
+
+// Tools and data connectors are read from their whole directory (see
+// listTools and listDataConnectors), so a change to any file in one re-reads it
+const DIRECTORY_CONTENT = /^(Tools|DataConnectors)\/[^/]+(?=\/)/;
+
+export interface IndexBuildOptions {
+  /** Patch the index already in the output directory when possible */
+  incremental?: boolean;
+  context?: OperationContext;
+}
+
+export interface IndexBuildResult {
+  /** full: everything re-read; incremental: previous index patched; unchanged: already current */
+  mode: 'full' | 'incremental' | 'unchanged';
+  indexPath: string;
+  queryStorePath: string;
+  index: OptimizedIndex;
+  solutionsAnalyzed: number;
+  itemsRead: number;
+  /** Paths changed since the previous index (incremental builds) */
+  changedPaths?: number;
+  /** Size of the same index with queries included (full builds) */
+  fullIndexSize?: number;
+}
+
+/**
+ * Scan every content type
+ */
+async function scanContent(contentScanner: ContentScanner) {
+  log.info('Fetching detections...');
+  const detections = await contentScanner.listDetections();
+
+  log.info('Fetching workbooks...');
+  const workbooks = await contentScanner.listWorkbooks();
+
+  log.info('Fetching hunting queries...');
+  const huntingQueries = await contentScanner.listHuntingQueries();
+
+  log.info('Fetching playbooks...');
+  const playbooks = await contentScanner.listPlaybooks();
+
+  log.info('Fetching parsers...');
+  const parsers = await contentScanner.listParsers();
+
+  log.info('Fetching watchlists...');
+  const watchlists = await contentScanner.listWatchlists();
+
+  log.info('Fetching notebooks...');
+  const notebooks = await contentScanner.listNotebooks();
+
+  log.info('Fetching exploration queries...');
+  const explorationQueries = await contentScanner.listExplorationQueries();
+
+  log.info('Fetching functions...');
+  const functions = await contentScanner.listFunctions();
+
+  log.info('Fetching ASIM content...');
+  const asimContent = await contentScanner.listASIMContent();
+
+  log.info('Fetching summary rules...');
+  const summaryRules = await contentScanner.listSummaryRules();
+
+  log.info('Fetching tools...');
+  const tools = await contentScanner.listTools();
+
+  log.info('Fetching tutorials...');
+  const tutorials = await contentScanner.listTutorials();
+
+  log.info('Fetching dashboards...');
+  const dashboards = await contentScanner.listDashboards();
+
+  log.info('Fetching data connectors...');
+  const dataConnectors = await contentScanner.listDataConnectors();
+
+  return {
+    detections,
+    workbooks,
+    huntingQueries,
+    playbooks,
+    parsers,
+    watchlists,
+    notebooks,
+    explorationQueries,
+    functions,
+    asimContent,
+    summaryRules,
+    tools,
+    tutorials,
+    dashboards,
+    dataConnectors,
+  };
+}
+
+/**
+ * Number of content items in a scan
+ */
+function countItems(content: Awaited<ReturnType<typeof scanContent>>): number {
+  return Object.values(content).reduce((total, items) => total + items.length, 0);
+}
+
+/**
+ * Write a file under a temporary name and rename it into place
+ */
+function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write an index and its query store; the store goes first, so the index
+ * never names a store that is not there yet
+ */
+function writeIndex(
+  outputDir: string,
+  index: OptimizedIndex,
+  queryStore: { data: Buffer; count: number }
+): { indexPath: string; queryStorePath: string } {
+  const queryStorePath = path.join(outputDir, QUERY_STORE_FILE);
+  writeFileAtomic(queryStorePath, queryStore.data);
+  index.queryStore = { file: QUERY_STORE_FILE, count: queryStore.count };
+
+  const indexPath = path.join(outputDir, INDEX_FILE);
+  writeFileAtomic(indexPath, JSON.stringify(index, null, 2));
+  return { indexPath, queryStorePath };
+}
+
+/**
+ * Build a complete index from every solution and content file
+ */
+async function buildFull(
+  github: ContentSource,
+  outputDir: string,
+  context: OperationContext
+): Promise<IndexBuildResult> {
+  log.info('Analyzing all Microsoft Sentinel solutions...');
+  const result = await new SolutionLoader(github, context).analyze();
+  result.metadata.repository = repositoryKey(github.getConfig());
+
+  log.info('Analyzing all content types...');
+  const content = await scanContent(new ContentScanner(github, context));
+  const indexData = { ...result, ...content };
+
+  // Optimized index (LLM-friendly, without queries) and the excluded queries
+  // in a compressed sidecar, read on demand
+  const index = OptimizedIndexBuilder.build(indexData);
+  const queryStore = OptimizedIndexBuilder.buildQueryStore(indexData);
+
+  return {
+    mode: 'full',
+    ...writeIndex(outputDir, index, queryStore),
+    index,
+    solutionsAnalyzed: result.metadata.totalSolutions,
+    itemsRead: countItems(content),
+    fullIndexSize: JSON.stringify(indexData).length,
+  };
+}
+
+/**
+ * Patch the previous index with the content changed since its commit
+ * Returns null when a full build is needed instead: no previous index, one
+ * written by another release or for another repository, or a source that
+ * cannot list its changes.
+ */
+async function buildIncremental(
+  github: ContentSource,
+  outputDir: string,
+  context: OperationContext
+): Promise<IndexBuildResult | null> {
+  const indexPath = path.join(outputDir, INDEX_FILE);
+  if (!fs.existsSync(indexPath)) {
+    log.info('No previous index found - running a full build');
+    return null;
+  }
+
+  const previous = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as OptimizedIndex;
+  const queryStorePath = previous.queryStore && path.join(outputDir, previous.queryStore.file);
+  if (
+    previous.version !== OPTIMIZED_INDEX_VERSION ||
+    !previous.repositoryCommit ||
+    !queryStorePath ||
+    !fs.existsSync(queryStorePath) ||
+    previous.mappings.some((m) => !m.solutionPath)
+  ) {
+    log.info('Previous index cannot be patched (older format or no commit) - running a full build');
+    return null;
+  }
+  const repository = repositoryKey(github.getConfig());
+  if (previous.repository !== repository) {
+    log.info(`Previous index was built from ${previous.repository || 'an unknown repository'}, not ${repository} - running a full build`);
+    return null;
+  }
+
+  const changedPaths = await github.getChangedPaths(previous.repositoryCommit, context.signal);
+  if (!changedPaths) {
+    log.info(`Changes since ${previous.repositoryCommit} cannot be listed - running a full build`);
+    return null;
+  }
+  if (changedPaths.length === 0) {
+    // Checked against the source just now, so it counts as freshly built
+    log.info(`Index is up to date with ${previous.repositoryCommit}`);
+    previous.generatedAt = new Date().toISOString();
+    writeFileAtomic(indexPath, JSON.stringify(previous, null, 2));
+    return { mode: 'unchanged', indexPath, queryStorePath, index: previous, solutionsAnalyzed: 0, itemsRead: 0, changedPaths: 0 };
+  }
+
+  // Changed files, the directories read as one item, and the solutions touched
+  const scope = new Set(changedPaths);
+  const solutionNames = new Set<string>();
+  for (const changedPath of changedPaths) {
+    const directory = changedPath.match(DIRECTORY_CONTENT);
+    if (directory) {
+      scope.add(directory[0]);
+    }
+    const solution = changedPath.match(/^Solutions\/([^/]+)\//);
+    if (solution) {
+      solutionNames.add(solution[1]);
+    }
+  }
+  log.info(
+    `${changedPaths.length} paths changed since ${previous.repositoryCommit}, in ${solutionNames.size} solutions`
+  );
+
+  const result = await new SolutionLoader(github, context).analyze(solutionNames);
+  result.metadata.repository = repository;
+  const content = await scanContent(new ContentScanner(github, context, scope));
+  const changes = { ...result, ...content };
+
+  const index = OptimizedIndexBuilder.patch(
+    previous,
+    changes,
+    (filePath) => isInScope(filePath, scope),
+    new Set(Array.from(solutionNames, (name) => `Solutions/${name}`))
+  );
+
+  const previousQueries = JSON.parse(gunzipSync(fs.readFileSync(queryStorePath)).toString('utf-8')) as QueryStore;
+  const queryStore = OptimizedIndexBuilder.patchQueryStore(previousQueries, index, changes);
+
+  return {
+    mode: 'incremental',
+    ...writeIndex(outputDir, index, queryStore),
+    index,
+    solutionsAnalyzed: solutionNames.size,
+    itemsRead: countItems(content),
+    changedPaths: changedPaths.length,
+  };
+}
+
+/**
+ * Report the solution analysis and every content scan as one running total
+ * Each phase counts from 0 on its own, which would send progress backwards
+ * between phases; their sizes are not known up front, so no total is given.
+ */
+function combinedProgress(onProgress: ProgressCallback | undefined): ProgressCallback | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+
+  let completed = 0;
+  return (progress, total, message) => {
+    onProgress(completed + progress, undefined, message);
+    if (total !== undefined && progress >= total) {
+      completed += total;
+    }
+  };
+}
+
+/**
+ * Build the index for a content source into outputDir
+ */
+export async function buildIndex(
+  github: ContentSource,
+  outputDir: string,
+  options: IndexBuildOptions = {}
+): Promise<IndexBuildResult> {
+  const context = { ...options.context, onProgress: combinedProgress(options.context?.onProgress) };
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  const patched = options.incremental ? await buildIncremental(github, outputDir, context) : null;
+  return patched || buildFull(github, outputDir, context);
+}
+
+/**
+ * Copy an index and its query store to another directory, e.g. to seed an
+ * incremental build from the bundled index
+ */
+export function copyIndex(fromDir: string, toDir: string): void {
+  const index = JSON.parse(fs.readFileSync(path.join(fromDir, INDEX_FILE), 'utf-8')) as OptimizedIndex;
+  fs.mkdirSync(toDir, { recursive: true });
+  if (index.queryStore) {
+    writeFileAtomic(path.join(toDir, index.queryStore.file), fs.readFileSync(path.join(fromDir, index.queryStore.file)));
+  }
+  writeFileAtomic(path.join(toDir, INDEX_FILE), JSON.stringify(index, null, 2));
+}
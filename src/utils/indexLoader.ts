@@ -1,42 +1,190 @@
 /**
  * Utility for loading pre-built analysis index
+ *
+ * Two locations are checked: the index bundled with the package and the
+ * user-writable index directory that refreshes write to (SENTINEL_INDEX_DIR,
+ * default ~/.cache/sentinel-solutions-mcp/index). The most recently built
+ * one is used. Indexes built for other repositories are looked up in their
+ * own directory. An index records the repository it was built from and is
+ * only used for that repository. A loaded index is kept in memory and swapped for the new
+ * one as soon as its file is replaced.
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { gunzipSync } from 'zlib';
 import { fileURLToPath } from 'url';
 import { AnalysisResult } from '../types/index.js';
-import { OptimizedIndex } from '../types/optimizedIndex.js';
+import { OptimizedIndex, QueryStore, INDEX_FILE } from '../types/optimizedIndex.js';
+import { repositoryKey } from '../repository/clientFactory.js';
+import { createLogger } from './logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const log = createLogger('indexLoader');
+
 /**
- * Load the pre-built index from dist directory
- * Now loads optimized index by default (queries excluded)
- * Returns null if index doesn't exist or is invalid
+ * Optimized index versions this loader reads (2.x and 3.x)
  */
-export function loadPreBuiltIndex(): AnalysisResult | null {
-  try {
-    const indexPath = path.join(__dirname, 'pre-built-index.json');
+const SUPPORTED_OPTIMIZED_VERSION = /^[23]\./;
+
+/**
+ * Directory holding the index shipped with the package
+ */
+export const BUNDLED_INDEX_DIR = __dirname;
+
+/**
+ * User-writable directory refreshed indexes are written to
+ */
+export const INDEX_CACHE_DIR =
+  process.env.SENTINEL_INDEX_DIR ||
+  path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'sentinel-solutions-mcp', 'index');
+
+// Age in days after which the index is stale
+const MAX_AGE_DAYS = Number(process.env.SENTINEL_INDEX_MAX_AGE_DAYS ?? 7);
 
-    if (!fs.existsSync(indexPath)) {
-      console.error('Pre-built index not found at:', indexPath);
-      return null;
+/**
+ * Sidecar query store named by an index, read on first use
+ */
+interface QueryStoreFile {
+  path: string | null;
+  queries: Map<string, string> | null;
+}
+
+/**
+ * An index file read from disk
+ */
+interface IndexFile {
+  path: string;
+  mtimeMs: number;
+  builtAt?: string;
+  repository?: string;
+  result: AnalysisResult | null;
+}
+
+// Index in use by directory ('' for the configured repository), and when
+// each file was built (by modification time)
+const inUse = new Map<string, IndexFile>();
+const builtAtByPath = new Map<string, { mtimeMs: number; builtAt?: string; repository?: string }>();
+let reportedMissing = false;
+
+// Query hash and store of each item converted from an optimized index
+const queryHashes = new WeakMap<object, { hash: string; store: QueryStoreFile }>();
+
+/**
+ * Remember an item's query hash so its query can be read from the store later
+ */
+function withQueryHash<T extends object>(item: T, hash: string | undefined, store: QueryStoreFile): T {
+  if (hash) {
+    queryHashes.set(item, { hash, store });
+  }
+  return item;
+}
+
+/**
+ * Load the pre-built index - the newer of the bundled and the refreshed one,
+ * or the one in indexDir for another repository
+ * Reads optimized indexes (v2 and v3, queries excluded) and the full format
+ * Returns null if none exists, is valid and was built from repository (a
+ * repositoryKey, the configured repository by default). Bundled indexes from
+ * releases that did not record their repository are taken as the configured one.
+ */
+export function loadPreBuiltIndex(indexDir?: string, repository: string = repositoryKey({})): AnalysisResult | null {
+  const candidates = indexDir
+    ? [path.join(indexDir, INDEX_FILE)]
+    : [path.join(INDEX_CACHE_DIR, INDEX_FILE), path.join(BUNDLED_INDEX_DIR, INDEX_FILE)];
+  const current = inUse.get(indexDir || '');
+
+  let newest: IndexFile | null = null;
+  for (const indexPath of candidates) {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(indexPath).mtimeMs;
+    } catch {
+      continue;
+    }
+
+    // Unchanged files are only compared by build time, not read again
+    let file: IndexFile;
+    const known = current?.path === indexPath ? current : builtAtByPath.get(indexPath);
+    if (known && known.mtimeMs === mtimeMs) {
+      file = { path: indexPath, mtimeMs, builtAt: known.builtAt, repository: known.repository, result: null };
+    } else {
+      file = readIndexFile(indexPath, mtimeMs);
+      builtAtByPath.set(indexPath, { mtimeMs, builtAt: file.builtAt, repository: file.repository });
+      if (file.result && !isIndexFor(file, repository)) {
+        log.warning(
+          `Ignoring pre-built index ${indexPath}: built from ${file.repository || 'an unknown repository'}, not ${repository}`
+        );
+      }
+    }
+
+    if (file.builtAt && isIndexFor(file, repository) && (!newest || file.builtAt > newest.builtAt!)) {
+      newest = file;
+    }
+  }
+
+  if (!newest) {
+    // Other repositories only have an index once one is built for them
+    if (!indexDir && !reportedMissing) {
+      log.warning(`Pre-built index for ${repository} not found at: ${path.join(BUNDLED_INDEX_DIR, INDEX_FILE)} or ${INDEX_CACHE_DIR}`);
+      reportedMissing = true;
     }
+    inUse.delete(indexDir || '');
+    return null;
+  }
+  if (!indexDir) {
+    reportedMissing = false;
+  }
+
+  if (current?.path === newest.path && current.mtimeMs === newest.mtimeMs) {
+    return current.result;
+  }
+  const loaded = newest.result ? newest : readIndexFile(newest.path, newest.mtimeMs);
+  inUse.set(indexDir || '', loaded);
+  return loaded.result;
+}
+
+/**
+ * Whether an index file was built from a repository
+ */
+function isIndexFor(file: IndexFile, repository: string): boolean {
+  if (!file.repository) {
+    return path.dirname(file.path) === BUNDLED_INDEX_DIR && repository === repositoryKey({});
+  }
+  return file.repository === repository;
+}
 
+/**
+ * Read and convert one index file; result is null if it is invalid
+ */
+function readIndexFile(indexPath: string, mtimeMs: number): IndexFile {
+  const file: IndexFile = { path: indexPath, mtimeMs, result: null };
+  try {
     const indexData = fs.readFileSync(indexPath, 'utf-8');
 
     // Try to parse as optimized index first
     try {
       const optimized = JSON.parse(indexData) as OptimizedIndex;
-      if (optimized.version && optimized.version.startsWith('2.')) {
+      if (optimized.version && SUPPORTED_OPTIMIZED_VERSION.test(optimized.version)) {
         // It's an optimized index
-        console.error('✨ Loaded optimized LLM-friendly index (queries excluded)');
-        console.error(
-          `   ${optimized.stats.totalSolutions} solutions, ${optimized.stats.totalDetections} detections, ${optimized.stats.totalHuntingQueries} hunting queries`
+        log.info(
+          `Loaded optimized LLM-friendly index v${optimized.version} (queries excluded) from ${indexPath}: ${optimized.stats.totalSolutions} solutions, ${optimized.stats.totalDetections} detections, ${optimized.stats.totalHuntingQueries} hunting queries`
         );
-        return convertOptimizedToFull(optimized);
+        file.builtAt = optimized.generatedAt;
+        file.repository = optimized.repository;
+        file.result = convertOptimizedToFull(optimized, {
+          path: optimized.queryStore ? path.join(path.dirname(indexPath), optimized.queryStore.file) : null,
+          queries: null,
+        });
+        return file;
+      }
+      if (optimized.version && optimized.stats) {
+        // An optimized index written by a newer release
+        log.warning(`Unsupported pre-built index version ${optimized.version} in ${indexPath} - rebuild the index`);
+        return file;
       }
     } catch {
       // Not optimized format, try full format
@@ -44,26 +192,40 @@ export function loadPreBuiltIndex(): AnalysisResult | null {
 
     // Fall back to full AnalysisResult format
     const result = JSON.parse(indexData) as AnalysisResult;
-    console.error('Loaded full pre-built index from', result.metadata.preBuiltAt);
-    console.error(
-      `   ${result.metadata.totalSolutions} solutions, ${result.metadata.totalConnectors} connectors, ${result.metadata.totalTables} tables`
+    log.info(
+      `Loaded full pre-built index from ${result.metadata.preBuiltAt}: ${result.metadata.totalSolutions} solutions, ${result.metadata.totalConnectors} connectors, ${result.metadata.totalTables} tables`
     );
-
-    return result;
+    file.builtAt = result.metadata.preBuiltAt;
+    file.repository = result.metadata.repository;
+    file.result = result;
+    return file;
   } catch (error) {
-    console.error('Failed to load pre-built index:', error);
+    log.error(`Failed to load pre-built index ${indexPath}`, error);
+    return file;
+  }
+}
+
+/**
+ * Where the index in use (for indexDir) was loaded from, or null if none is loaded
+ */
+export function getIndexLocation(indexDir?: string): 'bundled' | 'cache' | null {
+  const current = inUse.get(indexDir || '');
+  if (!current) {
     return null;
   }
+  return path.dirname(current.path) === BUNDLED_INDEX_DIR ? 'bundled' : 'cache';
 }
 
 /**
  * Convert optimized index back to full AnalysisResult format
- * Note: queries will be undefined since they're excluded from optimized index
+ * Note: queries will be undefined since they're excluded from optimized index.
+ * Content types a v2 index lacks stay undefined, so tools read them from GitHub.
  */
-function convertOptimizedToFull(optimized: OptimizedIndex): AnalysisResult {
+function convertOptimizedToFull(optimized: OptimizedIndex, store: QueryStoreFile): AnalysisResult {
   return {
     mappings: optimized.mappings.map((m) => ({
       solution: m.solution,
+      solutionPath: m.solutionPath,
       publisher: '',
       version: '',
       connectorId: m.connectorId,
@@ -72,38 +234,93 @@ function convertOptimizedToFull(optimized: OptimizedIndex): AnalysisResult {
       isUnique: false,
     })),
     issues: [],
-    detections: optimized.content.detections.map((d) => ({
-      id: d.id,
-      name: d.name,
-      description: d.description,
-      severity: d.severity as 'Informational' | 'Low' | 'Medium' | 'High' | 'Critical' | undefined,
-      status: d.status,
-      tactics: d.tactics,
-      techniques: d.techniques,
-      query: undefined, // Excluded in optimized index
-      filePath: d.filePath,
-      solution: d.solution,
-    })),
+    detections: optimized.content.detections.map((d) => withQueryHash(
+      {
+        id: d.id,
+        name: d.name,
+        description: d.description,
+        severity: d.severity as 'Informational' | 'Low' | 'Medium' | 'High' | 'Critical' | undefined,
+        status: d.status,
+        tactics: d.tactics,
+        techniques: d.techniques,
+        query: undefined, // Excluded in optimized index
+        filePath: d.filePath,
+        solution: d.solution,
+      },
+      d.queryHash,
+      store
+    )),
     workbooks: optimized.content.workbooks,
-    huntingQueries: optimized.content.huntingQueries.map((q) => ({
-      id: q.id,
-      name: q.name,
-      description: q.description,
-      tactics: q.tactics,
-      techniques: q.techniques,
-      query: undefined, // Excluded in optimized index
-      filePath: q.filePath,
-      solution: q.solution,
-    })),
+    huntingQueries: optimized.content.huntingQueries.map((q) => withQueryHash(
+      {
+        id: q.id,
+        name: q.name,
+        description: q.description,
+        tactics: q.tactics,
+        techniques: q.techniques,
+        query: undefined, // Excluded in optimized index
+        filePath: q.filePath,
+        solution: q.solution,
+      },
+      q.queryHash,
+      store
+    )),
     playbooks: optimized.content.playbooks,
-    parsers: optimized.content.parsers.map((p) => ({
-      id: p.id,
-      name: p.name,
-      description: p.description,
-      query: undefined, // Excluded in optimized index
-      filePath: p.filePath,
-      solution: p.solution,
-    })),
+    parsers: optimized.content.parsers.map((p) => withQueryHash(
+      {
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        query: undefined, // Excluded in optimized index
+        filePath: p.filePath,
+        solution: p.solution,
+      },
+      p.queryHash,
+      store
+    )),
+    watchlists: optimized.content.watchlists,
+    notebooks: optimized.content.notebooks,
+    explorationQueries: optimized.content.explorationQueries?.map((q) => withQueryHash(
+      {
+        id: q.id,
+        name: q.name,
+        description: q.description,
+        query: undefined, // Excluded in optimized index
+        filePath: q.filePath,
+        solution: q.solution,
+      },
+      q.queryHash,
+      store
+    )),
+    functions: optimized.content.functions?.map((f) => withQueryHash(
+      {
+        id: f.id,
+        name: f.name,
+        description: f.description,
+        query: undefined, // Excluded in optimized index
+        filePath: f.filePath,
+        solution: f.solution,
+      },
+      f.queryHash,
+      store
+    )),
+    asimContent: optimized.content.asimContent,
+    summaryRules: optimized.content.summaryRules?.map((r) => withQueryHash(
+      {
+        id: r.id,
+        name: r.name,
+        description: r.description,
+        query: undefined, // Excluded in optimized index
+        filePath: r.filePath,
+        solution: r.solution,
+      },
+      r.queryHash,
+      store
+    )),
+    tools: optimized.content.tools,
+    tutorials: optimized.content.tutorials,
+    dashboards: optimized.content.dashboards,
+    dataConnectors: optimized.content.dataConnectors,
     metadata: {
       totalSolutions: optimized.stats.totalSolutions,
       totalConnectors: optimized.stats.totalConnectors,
@@ -113,8 +330,19 @@ function convertOptimizedToFull(optimized: OptimizedIndex): AnalysisResult {
       totalHuntingQueries: optimized.stats.totalHuntingQueries,
       totalPlaybooks: optimized.stats.totalPlaybooks,
       totalParsers: optimized.stats.totalParsers,
+      totalWatchlists: optimized.stats.totalWatchlists,
+      totalNotebooks: optimized.stats.totalNotebooks,
+      totalExplorationQueries: optimized.stats.totalExplorationQueries,
+      totalFunctions: optimized.stats.totalFunctions,
+      totalASIMContent: optimized.stats.totalASIMContent,
+      totalSummaryRules: optimized.stats.totalSummaryRules,
+      totalTools: optimized.stats.totalTools,
+      totalTutorials: optimized.stats.totalTutorials,
+      totalDashboards: optimized.stats.totalDashboards,
+      totalDataConnectors: optimized.stats.totalDataConnectors,
       analysisDate: optimized.generatedAt,
       repositoryCommit: optimized.repositoryCommit,
+      repository: optimized.repository,
       preBuiltAt: optimized.generatedAt,
       version: optimized.version,
     },
@@ -122,16 +350,70 @@ function convertOptimizedToFull(optimized: OptimizedIndex): AnalysisResult {
 }
 
 /**
- * Check if the pre-built index is stale (older than 7 days)
+ * Read the sidecar query store of an index, once
+ * Returns null if the index has no store or it cannot be read.
  */
-export function isIndexStale(result: AnalysisResult): boolean {
-  if (!result.metadata.preBuiltAt) {
-    return true;
+function loadQueryStore(store: QueryStoreFile): Map<string, string> | null {
+  if (!store.queries && store.path) {
+    try {
+      const data = JSON.parse(gunzipSync(fs.readFileSync(store.path)).toString('utf-8')) as QueryStore;
+      store.queries = new Map(Object.entries(data.queries));
+      log.info(`Loaded query store: ${store.queries.size} queries`);
+    } catch (error) {
+      log.warning(`Failed to load query store ${store.path}`, error);
+      store.path = null;
+    }
   }
+  return store.queries;
+}
 
-  const preBuiltDate = new Date(result.metadata.preBuiltAt);
-  const now = new Date();
-  const daysDiff = (now.getTime() - preBuiltDate.getTime()) / (1000 * 60 * 60 * 24);
+/**
+ * KQL query of an item, reading it from the pre-built query store when the
+ * index excluded it; undefined if neither has it
+ */
+export function getIndexedQuery(item: { query?: string }): string | undefined {
+  if (item.query !== undefined) {
+    return item.query;
+  }
+  const indexed = queryHashes.get(item);
+  return indexed ? loadQueryStore(indexed.store)?.get(indexed.hash) : undefined;
+}
+
+/**
+ * Copy of an index item with some fields changed, still able to read its
+ * query from the query store
+ */
+export function copyIndexedItem<T extends object>(item: T, changes: Partial<T>): T {
+  const copy = { ...item, ...changes };
+  const indexed = queryHashes.get(item);
+  if (indexed) {
+    queryHashes.set(copy, indexed);
+  }
+  return copy;
+}
+
+/**
+ * Item with its KQL query filled in from the query store, for detail views
+ */
+export function withIndexedQuery<T extends { query?: string }>(item: T): T {
+  const query = getIndexedQuery(item);
+  return query === item.query ? item : { ...item, query };
+}
 
-  return daysDiff > 7;
+/**
+ * Age of an index in days, or null if it does not record when it was built
+ */
+export function getIndexAgeDays(result: AnalysisResult): number | null {
+  if (!result.metadata.preBuiltAt) {
+    return null;
+  }
+  return (Date.now() - new Date(result.metadata.preBuiltAt).getTime()) / (1000 * 60 * 60 * 24);
+}
+
+/**
+ * Check if the pre-built index is stale (older than SENTINEL_INDEX_MAX_AGE_DAYS, default 7)
+ */
+export function isIndexStale(result: AnalysisResult): boolean {
+  const age = getIndexAgeDays(result);
+  return age === null || age > MAX_AGE_DAYS;
 }
@@ -0,0 +1,269 @@
+/**
+ * Index builds and the staleness policy for pre-built indexes
+ *
+ * The configured repository's index is refreshed into the user-writable
+ * index directory (SENTINEL_INDEX_DIR), next to the bundled one. Indexes for
+ * other repositories and refs are built on request (build_index) into a
+ * subdirectory per repository, so calls naming them answer from the index too.
+ *
+ * SENTINEL_INDEX_STALE_POLICY decides what a tool does with an index older
+ * than SENTINEL_INDEX_MAX_AGE_DAYS:
+ * - warn (default): answer from it, with a warning
+ * - refresh: answer from it while a refresh runs in the background
+ * - block: refresh first, then answer
+ * A refresh patches the index incrementally where it can; every tool picks
+ * the new index up on its next read.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { AnalysisResult } from '../types/index.js';
+import { INDEX_FILE } from '../types/optimizedIndex.js';
+import { OperationContext, ProgressCallback } from '../types/operation.js';
+import { RepositoryConfig } from '../types/repository.js';
+import { authorizeContentSource, createContentSource, repositoryKey } from '../repository/clientFactory.js';
+import { buildIndex, copyIndex, IndexBuildResult } from './indexBuilder.js';
+import {
+  loadPreBuiltIndex,
+  getIndexAgeDays,
+  getIndexLocation,
+  isIndexStale,
+  BUNDLED_INDEX_DIR,
+  INDEX_CACHE_DIR,
+} from './indexLoader.js';
+import { abortable, detached, waitUnlessAborted } from './concurrency.js';
+import { createLogger, withoutLogSink } from './logger.js';
+
+const log = createLogger('indexRefresh');
+
+export const STALE_POLICIES = ['warn', 'refresh', 'block'] as const;
+export type StalePolicy = (typeof STALE_POLICIES)[number];
+
+// Wait after a failed refresh before trying again
+const RETRY_AFTER_MS = 60 * 60 * 1000;
+
+/**
+ * Freshness of the index in use, reported with every tool result
+ */
+export interface IndexStatus {
+  source: 'bundled' | 'cache';
+  builtAt?: string;
+  ageDays?: number;
+  commit?: string;
+  stale: boolean;
+  refreshing: boolean;
+  policy: StalePolicy;
+}
+
+/**
+ * Build in progress, with the progress callbacks of the calls waiting for it
+ */
+interface SharedBuild {
+  build: Promise<IndexBuildResult>;
+  listeners: Set<ProgressCallback>;
+}
+
+// Builds and background refreshes in progress, and failed refreshes, by output directory
+const builds = new Map<string, SharedBuild>();
+const refreshes = new Map<string, Promise<void>>();
+const lastFailure = new Map<string, number>();
+
+/**
+ * Policy from SENTINEL_INDEX_STALE_POLICY, warn if unset or unknown
+ */
+function getStalePolicy(): StalePolicy {
+  const policy = process.env.SENTINEL_INDEX_STALE_POLICY || 'warn';
+  return (STALE_POLICIES as readonly string[]).includes(policy) ? (policy as StalePolicy) : 'warn';
+}
+
+/**
+ * Directory holding the index built for a repository and ref, or null for the
+ * configured repository, whose index is the bundled or refreshed one
+ */
+export function repositoryIndexDir(repository: Partial<RepositoryConfig> = {}): string | null {
+  const key = repositoryKey(repository);
+  if (key === repositoryKey({})) {
+    return null;
+  }
+  const slug = key.replace(/[^a-z0-9@._-]+/gi, '_').slice(0, 80);
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+  return path.join(INDEX_CACHE_DIR, 'repositories', `${slug}-${hash}`);
+}
+
+/**
+ * Build a repository's index into its index directory, once at a time
+ * Later calls for the same directory share the build in progress. The build
+ * runs outside every caller's request, so cancelling one call only stops that
+ * call waiting; each caller's onProgress hears the build's progress while it
+ * waits.
+ */
+export function buildRepositoryIndex(
+  repository: Partial<RepositoryConfig> = {},
+  options: { incremental?: boolean } = {},
+  context: OperationContext = {}
+): Promise<IndexBuildResult> {
+  const indexDir = repositoryIndexDir(repository);
+  const outputDir = indexDir || INDEX_CACHE_DIR;
+
+  let shared = builds.get(outputDir);
+  if (!shared) {
+    const listeners = new Set<ProgressCallback>();
+    const onProgress: ProgressCallback = (progress, total, message) => {
+      if (listeners.size === 0) {
+        log.info(message || `Processed ${progress}`);
+      }
+      listeners.forEach((listener) => listener(progress, total, message));
+    };
+    // Its own request scope, so maxFilesPerRequest still fails the build
+    const build = detached(() =>
+      withoutLogSink(() =>
+        abortable({ onProgress }, (buildContext) =>
+          runBuild(repository, outputDir, !indexDir, !!options.incremental, buildContext)
+        )
+      )
+    ).finally(() => {
+      builds.delete(outputDir);
+    });
+    shared = { build, listeners };
+    builds.set(outputDir, shared);
+  }
+
+  const { listeners } = shared;
+  const { onProgress } = context;
+  if (onProgress) {
+    listeners.add(onProgress);
+  }
+  return waitUnlessAborted(shared.build, context.signal).finally(() => {
+    if (onProgress) {
+      listeners.delete(onProgress);
+    }
+  });
+}
+
+async function runBuild(
+  repository: Partial<RepositoryConfig>,
+  outputDir: string,
+  configured: boolean,
+  incremental: boolean,
+  context: OperationContext
+): Promise<IndexBuildResult> {
+  // The configured repository's first refresh starts from the bundled index
+  if (
+    configured &&
+    incremental &&
+    (!loadPreBuiltIndex() || getIndexLocation() === 'bundled' || !fs.existsSync(path.join(outputDir, INDEX_FILE))) &&
+    fs.existsSync(path.join(BUNDLED_INDEX_DIR, INDEX_FILE))
+  ) {
+    copyIndex(BUNDLED_INDEX_DIR, outputDir);
+  }
+
+  log.info(`Building the pre-built index in ${outputDir}...`);
+  return buildIndex(createContentSource(repository), outputDir, { incremental, context });
+}
+
+/**
+ * Refresh a repository's index in the background, once at a time
+ * Starts from the index in use, so the rebuild only reads what changed since.
+ */
+export function refreshIndex(repository: Partial<RepositoryConfig> = {}): Promise<void> {
+  const outputDir = repositoryIndexDir(repository) || INDEX_CACHE_DIR;
+
+  let refresh = refreshes.get(outputDir);
+  if (!refresh) {
+    refresh = detached(() => withoutLogSink(() => runRefresh(repository, outputDir))).finally(() => {
+      refreshes.delete(outputDir);
+    });
+    refreshes.set(outputDir, refresh);
+  }
+  return refresh;
+}
+
+async function runRefresh(repository: Partial<RepositoryConfig>, outputDir: string): Promise<void> {
+  const started = Date.now();
+  try {
+    const build = await buildRepositoryIndex(repository, { incremental: true });
+    log.info(
+      `Pre-built index in ${outputDir} refreshed (${build.mode}) to commit ${build.index.repositoryCommit || 'unknown'} in ${Math.round((Date.now() - started) / 1000)}s`
+    );
+    lastFailure.delete(outputDir);
+  } catch (error) {
+    lastFailure.set(outputDir, Date.now());
+    log.error(`Failed to refresh the pre-built index in ${outputDir}`, error);
+    throw error;
+  }
+}
+
+/**
+ * Pre-built index of a repository for a tool call, with the staleness policy
+ * applied; null if none has been built for it
+ */
+export async function getPreBuiltIndex(
+  context: OperationContext = {},
+  repository: Partial<RepositoryConfig> = {}
+): Promise<AnalysisResult | null> {
+  const indexDir = repositoryIndexDir(repository);
+  if (indexDir) {
+    // Throws if the access policy no longer allows the repository
+    authorizeContentSource(repository);
+  }
+
+  const index = loadPreBuiltIndex(indexDir || undefined, repositoryKey(repository));
+  if (!index || !isIndexStale(index)) {
+    return index;
+  }
+
+  const builtAt = index.metadata.preBuiltAt;
+  const age = builtAt ? `${Math.floor(getIndexAgeDays(index)!)} days old (built ${builtAt})` : 'of unknown age';
+  const policy = getStalePolicy();
+  const retryAllowed = Date.now() - (lastFailure.get(indexDir || INDEX_CACHE_DIR) || 0) > RETRY_AFTER_MS;
+
+  if (policy === 'block' && retryAllowed) {
+    try {
+      await waitUnlessAborted(refreshIndex(repository), context.signal);
+      return loadPreBuiltIndex(indexDir || undefined, repositoryKey(repository));
+    } catch (error) {
+      context.signal?.throwIfAborted();
+      log.resultWarning(
+        `Pre-built index is ${age} and refreshing it failed (${error instanceof Error ? error.message : error}) - results may be out of date.`
+      );
+      return index;
+    }
+  }
+
+  if (policy === 'refresh' && retryAllowed) {
+    refreshIndex(repository).catch(() => undefined); // Logged by runRefresh
+    log.resultWarning(`Pre-built index is ${age} - refreshing in the background, results may be out of date until it finishes.`);
+    return index;
+  }
+
+  log.resultWarning(
+    policy === 'warn'
+      ? `Pre-built index is ${age}. Use force_refresh: true for latest data, or set SENTINEL_INDEX_STALE_POLICY=refresh.`
+      : `Pre-built index is ${age} and the last refresh failed - results may be out of date.`
+  );
+  return index;
+}
+
+/**
+ * Freshness of a repository's index, or null if it has none
+ */
+export function getIndexStatus(repository: Partial<RepositoryConfig> = {}): IndexStatus | null {
+  const indexDir = repositoryIndexDir(repository);
+  const index = loadPreBuiltIndex(indexDir || undefined, repositoryKey(repository));
+  const source = getIndexLocation(indexDir || undefined);
+  if (!index || !source) {
+    return null;
+  }
+
+  const ageDays = getIndexAgeDays(index);
+  return {
+    source,
+    builtAt: index.metadata.preBuiltAt,
+    ageDays: ageDays === null ? undefined : Math.round(ageDays * 10) / 10,
+    commit: index.metadata.repositoryCommit,
+    stale: isIndexStale(index),
+    refreshing: builds.has(indexDir || INDEX_CACHE_DIR),
+    policy: getStalePolicy(),
+  };
+}
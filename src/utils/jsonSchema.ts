@@ -0,0 +1,34 @@
+/**
+ * Zod to JSON Schema conversion for MCP tool definitions
+ *
+ * Tool schemas are Zod 4 objects. zod-to-json-schema 3.x only understands
+ * Zod 3 schemas (it emits an empty schema for Zod 4), so Zod's built-in
+ * converter is used instead.
+ */
+
+import { z } from 'zod';
+
+export interface ObjectJsonSchema {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Convert a Zod object schema to draft-07 JSON Schema
+ * Input schemas describe what callers may send (defaults make fields optional),
+ * output schemas describe what the tool returns.
+ */
+export function toJsonSchema(
+  schema: z.ZodType,
+  io: 'input' | 'output' = 'input'
+): ObjectJsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    target: 'draft-7',
+    io,
+    unrepresentable: 'any',
+  });
+
+  return jsonSchema as ObjectJsonSchema;
+}
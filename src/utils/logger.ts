@@ -0,0 +1,120 @@
+/**
+ * Module loggers routed through MCP logging
+ *
+ * Inside a request scope (see withLogSink) messages are delivered to that
+ * request's server as notifications/message, so each HTTP session only
+ * receives its own diagnostics. Outside a scope - startup, build scripts -
+ * they fall back to stderr.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * MCP logging levels (RFC 5424 severities), lowest first
+ */
+export type LogLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+export const LOG_LEVELS: LogLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/**
+ * Destination for log messages within a request scope
+ */
+export type LogSink = (level: LogLevel, logger: string, message: string) => void;
+
+export interface Logger {
+  debug(message: string): void;
+  info(message: string): void;
+  warning(message: string, error?: unknown): void;
+  error(message: string, error?: unknown): void;
+  /**
+   * Log a warning that changes what the current tool returns
+   * It is also attached to the tool result
+   */
+  resultWarning(message: string): void;
+}
+
+interface LogScope {
+  sink: LogSink;
+  warnings: string[];
+}
+
+const scope = new AsyncLocalStorage<LogScope>();
+
+/**
+ * Append the error message, if any, to a log line
+ */
+function formatMessage(message: string, error?: unknown): string {
+  if (error === undefined) {
+    return message;
+  }
+  return `${message}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Deliver a message to the active sink, or stderr outside a request
+ */
+function emit(level: LogLevel, logger: string, message: string): void {
+  const active = scope.getStore();
+  if (active) {
+    active.sink(level, logger, message);
+  } else {
+    console.error(message);
+  }
+}
+
+/**
+ * Create a named logger for a module
+ */
+export function createLogger(name: string): Logger {
+  return {
+    debug: (message) => emit('debug', name, message),
+    info: (message) => emit('info', name, message),
+    warning: (message, error) => emit('warning', name, formatMessage(message, error)),
+    error: (message, error) => emit('error', name, formatMessage(message, error)),
+    resultWarning: (message) => {
+      const active = scope.getStore();
+      if (active && !active.warnings.includes(message)) {
+        active.warnings.push(message);
+      }
+      emit('warning', name, message);
+    },
+  };
+}
+
+/**
+ * Run fn with log messages delivered to sink
+ * Returns fn's result together with any warnings attached to it
+ */
+export async function withLogSink<T>(
+  sink: LogSink,
+  fn: () => Promise<T>
+): Promise<{ result: T; warnings: string[] }> {
+  const store: LogScope = { sink, warnings: [] };
+  const result = await scope.run(store, fn);
+  return { result, warnings: store.warnings };
+}
+
+/**
+ * Run fn with log messages going to stderr rather than the current request's
+ * sink - for background work that outlives the request
+ */
+export function withoutLogSink<T>(fn: () => T): T {
+  return scope.exit(fn);
+}
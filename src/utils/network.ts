@@ -0,0 +1,69 @@
+/**
+ * Outbound HTTP configuration for GitHub requests
+ * - HTTPS_PROXY / HTTP_PROXY / NO_PROXY (either case) route requests through a proxy
+ * - SENTINEL_CA_BUNDLE adds PEM certificates to the trusted roots, e.g. for a
+ *   proxy that inspects TLS or a GitHub Enterprise Server with an internal CA
+ * Without either, Node's default fetch dispatcher is left untouched.
+ */
+
+import * as fs from 'fs';
+import * as tls from 'tls';
+import { EnvHttpProxyAgent, ProxyAgent, setGlobalDispatcher } from 'undici';
+import { createLogger } from './logger.js';
+
+const log = createLogger('network');
+
+const PROXY_VARIABLES = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+let configured = false;
+
+/**
+ * Read the extra CA bundle, if configured
+ */
+function loadCaBundle(): string | undefined {
+  const bundlePath = process.env.SENTINEL_CA_BUNDLE;
+  if (!bundlePath) {
+    return undefined;
+  }
+
+  try {
+    return fs.readFileSync(bundlePath, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Unable to read SENTINEL_CA_BUNDLE (${bundlePath}): ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Install the proxy and CA settings for fetch, once per process
+ */
+export function configureNetwork(): void {
+  if (configured) {
+    return;
+  }
+  configured = true;
+
+  const proxy = PROXY_VARIABLES.map((name) => process.env[name]).find(Boolean);
+  const caBundle = loadCaBundle();
+  if (!proxy && !caBundle) {
+    return;
+  }
+
+  // Passing ca replaces the default roots, so keep them alongside the bundle
+  const tlsOptions = caBundle ? { ca: [...tls.rootCertificates, caBundle] } : undefined;
+  // proxyTls and requestTls cover the connection to the proxy and to the origin through it
+  const options: EnvHttpProxyAgent.Options & Pick<ProxyAgent.Options, 'proxyTls' | 'requestTls'> = {
+    connect: tlsOptions,
+    proxyTls: tlsOptions,
+    requestTls: tlsOptions,
+  };
+  setGlobalDispatcher(new EnvHttpProxyAgent(options));
+
+  if (proxy) {
+    log.info(`Using proxy ${new URL(proxy).host} (NO_PROXY: ${process.env.NO_PROXY || process.env.no_proxy || 'none'})`);
+  }
+  if (caBundle) {
+    log.info(`Trusting additional certificates from ${process.env.SENTINEL_CA_BUNDLE}`);
+  }
+}
@@ -4,14 +4,27 @@
  */
 
 import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
 import { AnalysisResult } from '../types/index.js';
 import {
   OptimizedIndex,
+  OPTIMIZED_INDEX_VERSION,
+  QueryStore,
   LightweightDetection,
   LightweightHuntingQuery,
   LightweightWorkbook,
   LightweightPlaybook,
   LightweightParser,
+  LightweightWatchlist,
+  LightweightNotebook,
+  LightweightExplorationQuery,
+  LightweightFunction,
+  LightweightASIMContent,
+  LightweightSummaryRule,
+  LightweightTool,
+  LightweightTutorial,
+  LightweightDashboard,
+  LightweightDataConnector,
 } from '../types/optimizedIndex.js';
 
 export class OptimizedIndexBuilder {
@@ -21,9 +34,10 @@ export class OptimizedIndexBuilder {
    */
   static build(fullIndex: AnalysisResult): OptimizedIndex {
     return {
-      version: '2.0.0',
+      version: OPTIMIZED_INDEX_VERSION,
       generatedAt: new Date().toISOString(),
       repositoryCommit: fullIndex.metadata.repositoryCommit,
+      repository: fullIndex.metadata.repository,
 
       stats: {
         totalSolutions: fullIndex.metadata.totalSolutions,
@@ -34,6 +48,16 @@ export class OptimizedIndexBuilder {
         totalHuntingQueries: fullIndex.huntingQueries?.length || 0,
         totalPlaybooks: fullIndex.playbooks?.length || 0,
         totalParsers: fullIndex.parsers?.length || 0,
+        totalWatchlists: fullIndex.watchlists?.length || 0,
+        totalNotebooks: fullIndex.notebooks?.length || 0,
+        totalExplorationQueries: fullIndex.explorationQueries?.length || 0,
+        totalFunctions: fullIndex.functions?.length || 0,
+        totalASIMContent: fullIndex.asimContent?.length || 0,
+        totalSummaryRules: fullIndex.summaryRules?.length || 0,
+        totalTools: fullIndex.tools?.length || 0,
+        totalTutorials: fullIndex.tutorials?.length || 0,
+        totalDashboards: fullIndex.dashboards?.length || 0,
+        totalDataConnectors: fullIndex.dataConnectors?.length || 0,
       },
 
       content: {
@@ -44,10 +68,23 @@ export class OptimizedIndexBuilder {
         workbooks: this.buildLightweightWorkbooks(fullIndex.workbooks || []),
         playbooks: this.buildLightweightPlaybooks(fullIndex.playbooks || []),
         parsers: this.buildLightweightParsers(fullIndex.parsers || []),
+        watchlists: this.buildLightweightWatchlists(fullIndex.watchlists || []),
+        notebooks: this.buildLightweightNotebooks(fullIndex.notebooks || []),
+        explorationQueries: this.buildLightweightExplorationQueries(
+          fullIndex.explorationQueries || []
+        ),
+        functions: this.buildLightweightFunctions(fullIndex.functions || []),
+        asimContent: this.buildLightweightASIMContent(fullIndex.asimContent || []),
+        summaryRules: this.buildLightweightSummaryRules(fullIndex.summaryRules || []),
+        tools: this.buildLightweightTools(fullIndex.tools || []),
+        tutorials: this.buildLightweightTutorials(fullIndex.tutorials || []),
+        dashboards: this.buildLightweightDashboards(fullIndex.dashboards || []),
+        dataConnectors: this.buildLightweightDataConnectors(fullIndex.dataConnectors || []),
       },
 
       mappings: fullIndex.mappings.map((m) => ({
         solution: m.solution,
+        solutionPath: m.solutionPath,
         connectorId: m.connectorId,
         connectorTitle: m.connectorTitle,
         tableName: m.tableName,
@@ -55,6 +92,113 @@ export class OptimizedIndexBuilder {
     };
   }
 
+  /**
+   * Patch a previous index with content re-read after a change (incremental builds)
+   * Items for which isReplaced(filePath) holds are dropped in favour of the
+   * rescanned ones in changes, and the mappings of each re-analyzed solution
+   * (solutionPaths) by its new mappings. Stats are recomputed.
+   */
+  static patch(
+    previous: OptimizedIndex,
+    changes: AnalysisResult,
+    isReplaced: (filePath: string) => boolean,
+    solutionPaths: ReadonlySet<string>
+  ): OptimizedIndex {
+    const rebuilt = this.build(changes);
+
+    const content = { ...rebuilt.content };
+    for (const key of Object.keys(content) as Array<keyof OptimizedIndex['content']>) {
+      const kept = (previous.content[key] || []).filter((item) => !(item.filePath && isReplaced(item.filePath)));
+      (content as Record<string, unknown[]>)[key] = [...kept, ...(rebuilt.content[key] || [])];
+    }
+
+    const mappings = [
+      ...previous.mappings.filter((m) => !m.solutionPath || !solutionPaths.has(m.solutionPath)),
+      ...rebuilt.mappings,
+    ];
+
+    return {
+      ...rebuilt,
+      stats: {
+        totalSolutions: changes.metadata.totalSolutions,
+        totalConnectors: new Set(mappings.map((m) => m.connectorId)).size,
+        totalTables: new Set(mappings.map((m) => m.tableName)).size,
+        totalDetections: content.detections.length,
+        totalWorkbooks: content.workbooks.length,
+        totalHuntingQueries: content.huntingQueries.length,
+        totalPlaybooks: content.playbooks.length,
+        totalParsers: content.parsers.length,
+        totalWatchlists: content.watchlists?.length || 0,
+        totalNotebooks: content.notebooks?.length || 0,
+        totalExplorationQueries: content.explorationQueries?.length || 0,
+        totalFunctions: content.functions?.length || 0,
+        totalASIMContent: content.asimContent?.length || 0,
+        totalSummaryRules: content.summaryRules?.length || 0,
+        totalTools: content.tools?.length || 0,
+        totalTutorials: content.tutorials?.length || 0,
+        totalDashboards: content.dashboards?.length || 0,
+        totalDataConnectors: content.dataConnectors?.length || 0,
+      },
+      content,
+      mappings,
+    };
+  }
+
+  /**
+   * Build the sidecar query store for an index, gzipped
+   * Holds every query the lightweight items drop, keyed by the same hash.
+   */
+  static buildQueryStore(fullIndex: AnalysisResult): { data: Buffer; count: number } {
+    return this.encodeQueryStore(this.collectQueries(fullIndex));
+  }
+
+  /**
+   * Patch a previous query store for a patched index: adds the queries of
+   * the rescanned items and drops those no item refers to any more
+   */
+  static patchQueryStore(
+    previous: QueryStore,
+    index: OptimizedIndex,
+    changes: AnalysisResult
+  ): { data: Buffer; count: number } {
+    const available = { ...previous.queries, ...this.collectQueries(changes) };
+    const queries: QueryStore['queries'] = {};
+    for (const items of Object.values(index.content)) {
+      for (const item of (items || []) as Array<{ queryHash?: string }>) {
+        if (item.queryHash && available[item.queryHash] !== undefined) {
+          queries[item.queryHash] = available[item.queryHash];
+        }
+      }
+    }
+    return this.encodeQueryStore(queries);
+  }
+
+  /**
+   * Queries of every item that has one, keyed by hash
+   */
+  private static collectQueries(fullIndex: AnalysisResult): QueryStore['queries'] {
+    const queries: QueryStore['queries'] = {};
+    const items: Array<{ query?: string }> = [
+      ...(fullIndex.detections || []),
+      ...(fullIndex.huntingQueries || []),
+      ...(fullIndex.parsers || []),
+      ...(fullIndex.explorationQueries || []),
+      ...(fullIndex.functions || []),
+      ...(fullIndex.summaryRules || []),
+    ];
+    for (const item of items) {
+      if (item.query) {
+        queries[this.hashQuery(item.query)] = item.query;
+      }
+    }
+    return queries;
+  }
+
+  private static encodeQueryStore(queries: QueryStore['queries']): { data: Buffer; count: number } {
+    const store: QueryStore = { version: OPTIMIZED_INDEX_VERSION, queries };
+    return { data: gzipSync(JSON.stringify(store)), count: Object.keys(queries).length };
+  }
+
   /**
    * Create lightweight detection (without query)
    */
@@ -138,6 +282,145 @@ export class OptimizedIndexBuilder {
     }));
   }
 
+  /**
+   * Create lightweight watchlist
+   */
+  private static buildLightweightWatchlists(watchlists: any[]): LightweightWatchlist[] {
+    return watchlists.map((w) => ({
+      id: w.id,
+      name: w.name,
+      description: this.truncateDescription(w.description, 200),
+      alias: w.alias,
+      filePath: w.filePath,
+      solution: w.solution,
+    }));
+  }
+
+  /**
+   * Create lightweight notebook
+   */
+  private static buildLightweightNotebooks(notebooks: any[]): LightweightNotebook[] {
+    return notebooks.map((n) => ({
+      id: n.id,
+      name: n.name,
+      description: this.truncateDescription(n.description, 200),
+      tags: n.tags,
+      filePath: n.filePath,
+      solution: n.solution,
+    }));
+  }
+
+  /**
+   * Create lightweight exploration query (without query)
+   */
+  private static buildLightweightExplorationQueries(
+    queries: any[]
+  ): LightweightExplorationQuery[] {
+    return queries.map((q) => ({
+      id: q.id,
+      name: q.name,
+      description: this.truncateDescription(q.description, 200),
+      queryHash: q.query ? this.hashQuery(q.query) : undefined,
+      querySize: q.query?.length,
+      filePath: q.filePath,
+      solution: q.solution,
+    }));
+  }
+
+  /**
+   * Create lightweight function (without query)
+   */
+  private static buildLightweightFunctions(functions: any[]): LightweightFunction[] {
+    return functions.map((f) => ({
+      id: f.id,
+      name: f.name,
+      description: this.truncateDescription(f.description, 200),
+      queryHash: f.query ? this.hashQuery(f.query) : undefined,
+      querySize: f.query?.length,
+      filePath: f.filePath,
+      solution: f.solution,
+    }));
+  }
+
+  /**
+   * Create lightweight ASIM content
+   */
+  private static buildLightweightASIMContent(content: any[]): LightweightASIMContent[] {
+    return content.map((a) => ({
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      description: this.truncateDescription(a.description, 200),
+      filePath: a.filePath,
+    }));
+  }
+
+  /**
+   * Create lightweight summary rule (without query)
+   */
+  private static buildLightweightSummaryRules(rules: any[]): LightweightSummaryRule[] {
+    return rules.map((r) => ({
+      id: r.id,
+      name: r.name,
+      description: this.truncateDescription(r.description, 200),
+      queryHash: r.query ? this.hashQuery(r.query) : undefined,
+      querySize: r.query?.length,
+      filePath: r.filePath,
+      solution: r.solution,
+    }));
+  }
+
+  /**
+   * Create lightweight tool
+   */
+  private static buildLightweightTools(tools: any[]): LightweightTool[] {
+    return tools.map((t) => ({
+      id: t.id,
+      name: t.name,
+      description: this.truncateDescription(t.description, 200),
+      category: t.category,
+      filePath: t.filePath,
+    }));
+  }
+
+  /**
+   * Create lightweight tutorial
+   */
+  private static buildLightweightTutorials(tutorials: any[]): LightweightTutorial[] {
+    return tutorials.map((t) => ({
+      id: t.id,
+      name: t.name,
+      description: this.truncateDescription(t.description, 200),
+      filePath: t.filePath,
+    }));
+  }
+
+  /**
+   * Create lightweight dashboard
+   */
+  private static buildLightweightDashboards(dashboards: any[]): LightweightDashboard[] {
+    return dashboards.map((d) => ({
+      id: d.id,
+      name: d.name,
+      description: this.truncateDescription(d.description, 200),
+      filePath: d.filePath,
+      solution: d.solution,
+    }));
+  }
+
+  /**
+   * Create lightweight data connector
+   */
+  private static buildLightweightDataConnectors(connectors: any[]): LightweightDataConnector[] {
+    return connectors.map((c) => ({
+      id: c.id,
+      name: c.name,
+      description: this.truncateDescription(c.description, 200),
+      connectorType: c.connectorType,
+      filePath: c.filePath,
+    }));
+  }
+
   /**
    * Truncate long descriptions to save tokens
    */
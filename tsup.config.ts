@@ -5,7 +5,7 @@ export default defineConfig({
   format: ['esm'],
   target: 'node18',
   outDir: 'dist',
-  clean: ['**/*', '!pre-built-index.json'],  // Clean everything except pre-built index
+  clean: ['**/*', '!pre-built-index.json', '!pre-built-queries.json.gz'],  // Clean everything except pre-built index and query store
   sourcemap: true,
   dts: true,
   shims: true,